@@ -6,177 +6,44 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-
-// ============================================================================
-// Test Helpers - Inline storage class for testing
-// ============================================================================
-
-type TaskStatus = "pending" | "in_progress" | "completed" | "blocked";
-
-type Task = {
-  id: string;
-  subject: string;
-  status: TaskStatus;
-  blockedBy: string[];
-  blocks: string[];
-  notes: string;
-};
-
-type TaskProject = {
-  project: string;
-  status: "active" | "paused" | "completed";
-  created: string;
-  updated: string;
-  tasks: Task[];
-};
-
-class TaskStorage {
-  constructor(
-    private readonly tasksDir: string,
-    private readonly plansDir: string,
-  ) {
-    fs.mkdirSync(this.tasksDir, { recursive: true });
-    fs.mkdirSync(this.plansDir, { recursive: true });
-  }
-
-  private projectPath(project: string): string {
-    return path.join(this.tasksDir, `${project}.json`);
-  }
-
-  listProjects(): string[] {
-    try {
-      return fs.readdirSync(this.tasksDir)
-        .filter(f => f.endsWith(".json"))
-        .map(f => f.replace(".json", ""));
-    } catch {
-      return [];
-    }
-  }
-
-  getProject(project: string): TaskProject | null {
-    const filePath = this.projectPath(project);
-    try {
-      const content = fs.readFileSync(filePath, "utf-8");
-      return JSON.parse(content) as TaskProject;
-    } catch {
-      return null;
-    }
-  }
-
-  saveProject(data: TaskProject): void {
-    const filePath = this.projectPath(data.project);
-    data.updated = new Date().toISOString().split("T")[0];
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-  }
-
-  createProject(project: string): TaskProject {
-    const today = new Date().toISOString().split("T")[0];
-    const data: TaskProject = {
-      project,
-      status: "active",
-      created: today,
-      updated: today,
-      tasks: [],
-    };
-    this.saveProject(data);
-    return data;
-  }
-
-  getActiveProjects(): TaskProject[] {
-    return this.listProjects()
-      .map(p => this.getProject(p))
-      .filter((p): p is TaskProject => p !== null && p.status === "active");
-  }
-
-  addTask(project: string, subject: string): Task {
-    let data = this.getProject(project);
-    if (!data) {
-      data = this.createProject(project);
-    }
-
-    const maxId = data.tasks.reduce((max, t) => Math.max(max, parseInt(t.id) || 0), 0);
-    const task: Task = {
-      id: String(maxId + 1),
-      subject,
-      status: "pending",
-      blockedBy: [],
-      blocks: [],
-      notes: "",
-    };
-
-    data.tasks.push(task);
-    this.saveProject(data);
-    return task;
-  }
-
-  updateTaskStatus(project: string, taskId: string, status: TaskStatus): { task: Task; unblocked: string[] } {
-    const data = this.getProject(project);
-    if (!data) {
-      throw new Error(`Project '${project}' not found`);
-    }
-
-    const task = data.tasks.find(t => t.id === taskId);
-    if (!task) {
-      throw new Error(`Task '${taskId}' not found in project '${project}'`);
-    }
-
-    task.status = status;
-    const unblocked: string[] = [];
-
-    if (status === "completed") {
-      for (const t of data.tasks) {
-        if (t.blockedBy.includes(taskId)) {
-          t.blockedBy = t.blockedBy.filter(id => id !== taskId);
-          if (t.blockedBy.length === 0 && t.status === "blocked") {
-            t.status = "pending";
-            unblocked.push(t.id);
-          }
-        }
-      }
-    }
-
-    this.saveProject(data);
-    return { task, unblocked };
-  }
-
-  setBlocker(project: string, taskId: string, blockerId: string): void {
-    const data = this.getProject(project);
-    if (!data) {
-      throw new Error(`Project '${project}' not found`);
-    }
-
-    const task = data.tasks.find(t => t.id === taskId);
-    const blocker = data.tasks.find(t => t.id === blockerId);
-    if (!task || !blocker) {
-      throw new Error(`Task not found`);
-    }
-
-    if (!task.blockedBy.includes(blockerId)) {
-      task.blockedBy.push(blockerId);
-      task.status = "blocked";
-    }
-    if (!blocker.blocks.includes(taskId)) {
-      blocker.blocks.push(taskId);
-    }
-
-    this.saveProject(data);
-  }
-
-  updateTaskNotes(project: string, taskId: string, notes: string): void {
-    const data = this.getProject(project);
-    if (!data) {
-      throw new Error(`Project '${project}' not found`);
-    }
-
-    const task = data.tasks.find(t => t.id === taskId);
-    if (!task) {
-      throw new Error(`Task '${taskId}' not found`);
-    }
-
-    task.notes = notes;
-    this.saveProject(data);
-  }
-}
+import {
+  TaskStorage,
+  SqliteBackend,
+  InvalidProjectNameError,
+  ProjectCorruptedError,
+  ProjectLockError,
+  ProjectConflictError,
+  ArchiveCorruptedError,
+  DependencyError,
+  TaskClaimedError,
+  findDependencyIssues,
+  findStaleTasks,
+  computeProjectStats,
+  mergeProjects,
+  mergePlans,
+  watchProjectFiles,
+  contentDigest,
+  matchesFilter,
+  migrateProjectData,
+  CURRENT_SCHEMA_VERSION,
+  formatTaskList,
+  formatActiveTasksSummary,
+  formatEvent,
+  formatProjectExport,
+  formatTaskDetails,
+  updateTask,
+  handleBoardKey,
+  renderBoard,
+  scanTodoComments,
+  scanMarkdownChecklist,
+  loadTemplate,
+  listTemplates,
+  normalizeProjectName,
+  validateProjectName,
+  parsePlan,
+  getPlanSection,
+} from "./index.ts";
+import type { Task, TaskProject, ProjectTemplate } from "./index.ts";
 
 // ============================================================================
 // Tests
@@ -302,6 +169,54 @@ describe("TaskStorage", () => {
       expect(data.tasks[0].blocks).toContain("2");
     });
 
+    it("should reject a task blocking itself", () => {
+      storage.addTask("project", "Task 1");
+
+      expect(() => storage.setBlocker("project", "1", "1")).toThrow(DependencyError);
+    });
+
+    it("should reject cycles and name the cycle path", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2");
+      storage.addTask("project", "Task 3");
+      storage.setBlocker("project", "2", "1");
+      storage.setBlocker("project", "3", "2");
+
+      let error: DependencyError | undefined;
+      try {
+        storage.setBlocker("project", "1", "3");
+      } catch (err) {
+        error = err as DependencyError;
+      }
+
+      expect(error).toBeInstanceOf(DependencyError);
+      expect(error!.cycle).toEqual(["1", "3", "2", "1"]);
+      expect(error!.message).toContain("#1 → #3 → #2 → #1");
+      expect(storage.getProject("project")!.tasks[0].blockedBy).toEqual([]);
+    });
+
+    it("should name missing tasks", () => {
+      storage.addTask("project", "Task 1");
+
+      expect(() => storage.setBlocker("project", "1", "9")).toThrow("Task '9' not found in project 'project'");
+    });
+
+    it("should create a task with blockers atomically", () => {
+      storage.addTask("project", "Task 1");
+
+      const task = storage.addTask("project", "Task 2", { blockedBy: ["1"] });
+
+      expect(task.status).toBe("blocked");
+      expect(storage.getProject("project")!.tasks[0].blocks).toEqual(["2"]);
+    });
+
+    it("should reject unknown blockers without creating the task", () => {
+      storage.addTask("project", "Task 1");
+
+      expect(() => storage.addTask("project", "Task 2", { blockedBy: ["1", "7"] })).toThrow("#7");
+      expect(storage.getProject("project")!.tasks).toHaveLength(1);
+    });
+
     it("should not duplicate blockers", () => {
       storage.addTask("project", "Task 1");
       storage.addTask("project", "Task 2");
@@ -325,7 +240,7 @@ describe("TaskStorage", () => {
       expect(unblocked).toContain("2");
       const data = storage.getProject("project")!;
       expect(data.tasks[1].status).toBe("pending");
-      expect(data.tasks[1].blockedBy).toHaveLength(0);
+      expect(data.tasks[1].blockedBy).toEqual(["1"]);
     });
 
     it("should not unblock if other blockers remain", () => {
@@ -340,7 +255,7 @@ describe("TaskStorage", () => {
       expect(unblocked).toHaveLength(0);
       const data = storage.getProject("project")!;
       expect(data.tasks[2].status).toBe("blocked");
-      expect(data.tasks[2].blockedBy).toEqual(["2"]);
+      expect(data.tasks[2].blockedBy).toEqual(["1", "2"]);
     });
 
     it("should handle chain unblocks", () => {
@@ -364,30 +279,2148 @@ describe("TaskStorage", () => {
     });
   });
 
-  describe("task notes", () => {
-    it("should update task notes", () => {
-      storage.addTask("project", "My task");
-      
-      storage.updateTaskNotes("project", "1", "Some notes here");
-      
+  describe("reopening tasks", () => {
+    it("should re-block dependents when a completed task is reopened", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2", { blockedBy: ["1"] });
+      storage.updateTaskStatus("project", "1", "completed");
+
+      const { reblocked } = storage.updateTaskStatus("project", "1", "pending");
+
+      expect(reblocked).toEqual(["2"]);
       const data = storage.getProject("project")!;
-      expect(data.tasks[0].notes).toBe("Some notes here");
+      expect(data.tasks[1].status).toBe("blocked");
+      expect(data.tasks[1].blockedBy).toEqual(["1"]);
     });
 
-    it("should throw on non-existent task", () => {
+    it("should re-block transitively and stop at completed tasks", () => {
+      // 1 <- 2 <- 3, and 1 <- 4 (completed) <- 5
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2", { blockedBy: ["1"] });
+      storage.addTask("project", "Task 3", { blockedBy: ["2"] });
+      storage.addTask("project", "Task 4", { blockedBy: ["1"] });
+      storage.addTask("project", "Task 5", { blockedBy: ["4"] });
+      storage.updateTaskStatus("project", "1", "completed");
+      storage.updateTaskStatus("project", "2", "in_progress");
+      storage.updateTaskStatus("project", "4", "completed");
+      storage.updateTaskStatus("project", "3", "pending");
+
+      const { reblocked } = storage.updateTaskStatus("project", "1", "in_progress");
+
+      expect(reblocked).toEqual(["2", "3"]);
+      const statuses = storage.getProject("project")!.tasks.map(t => t.status);
+      expect(statuses).toEqual(["in_progress", "blocked", "blocked", "completed", "pending"]);
+    });
+
+    it("should not block a task on an already completed blocker", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2");
+      storage.updateTaskStatus("project", "1", "completed");
+
+      storage.setBlocker("project", "2", "1");
+
+      expect(storage.getProject("project")!.tasks[1].status).toBe("pending");
+    });
+
+    it("should restore dependencies dropped by older versions", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2", { blockedBy: ["1"] });
+      storage.updateTaskStatus("project", "1", "completed");
+      const data = storage.getProject("project")!;
+      data.tasks[1].blockedBy = [];
+      storage.saveProject(data);
+
+      storage.checkDependencies("project", { repair: true });
+
+      expect(storage.getProject("project")!.tasks[1].blockedBy).toEqual(["1"]);
+    });
+  });
+
+  describe("task fields", () => {
+    it("should stamp createdAt and updatedAt", () => {
+      const task = storage.addTask("project", "Task 1");
+
+      expect(task.createdAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+      expect(storage.getProject("project")!.updated).toMatch(/T\d{2}:\d{2}/);
+    });
+
+    it("should set and clear completedAt with status", () => {
+      storage.addTask("project", "Task 1");
+
+      storage.updateTaskStatus("project", "1", "completed");
+      expect(storage.getProject("project")!.tasks[0].completedAt).toBeDefined();
+
+      storage.updateTaskStatus("project", "1", "pending");
+      expect(storage.getProject("project")!.tasks[0].completedAt).toBeUndefined();
+    });
+
+    it("should only touch updatedAt on tasks that changed", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2");
+      const before = storage.getProject("project")!.tasks[0].updatedAt;
+
+      storage.updateTaskFields("project", "2", { priority: "high" });
+
+      const data = storage.getProject("project")!;
+      expect(data.tasks[0].updatedAt).toBe(before);
+      expect(data.tasks[1].updatedAt).toBeDefined();
+    });
+
+    it("should set, normalize and clear attributes", () => {
+      storage.addTask("project", "Task 1", {
+        priority: "urgent",
+        tags: [" api ", "api", "backend"],
+        assignee: "alice",
+        due: "2026-03-01",
+        estimate: 4,
+      });
+
+      let task = storage.getProject("project")!.tasks[0];
+      expect(task.tags).toEqual(["api", "backend"]);
+      expect(task.priority).toBe("urgent");
+
+      task = storage.updateTaskFields("project", "1", { tags: [], assignee: null, estimate: null });
+      expect(task.tags).toBeUndefined();
+      expect(task.assignee).toBeUndefined();
+      expect(task.estimate).toBeUndefined();
+      expect(task.due).toBe("2026-03-01");
+    });
+
+    it("should reject invalid attributes", () => {
+      storage.addTask("project", "Task 1");
+
+      expect(() => storage.updateTaskFields("project", "1", { due: "2026-02-30" })).toThrow("Invalid due date");
+      expect(() => storage.updateTaskFields("project", "1", { estimate: -1 })).toThrow("Invalid estimate");
+      expect(() => storage.updateTaskFields("project", "1", { priority: "asap" as never })).toThrow("Invalid priority");
+    });
+
+    it("should read tasks written without the new fields", () => {
       storage.createProject("project");
-      
-      expect(() => {
-        storage.updateTaskNotes("project", "999", "notes");
-      }).toThrow("Task '999' not found");
+      const data = storage.getProject("project")!;
+      data.tasks.push({ id: "1", subject: "Old", status: "pending", blockedBy: [], blocks: [], notes: "" });
+      storage.saveProject(data);
+
+      expect(storage.getReadyTasks("project")[0].task.subject).toBe("Old");
+      expect(formatTaskList(storage.getProject("project")!)).toContain("[ ] #1: Old");
+    });
+
+    it("should filter by priority, tag, assignee and due date", () => {
+      storage.addTask("project", "A", { priority: "high", tags: ["API"], assignee: "Alice", due: "2026-01-10" });
+      storage.addTask("project", "B", { due: "2026-02-10" });
+      const [a, b] = storage.getProject("project")!.tasks;
+
+      expect(matchesFilter(a, { priority: "high", tag: "api", assignee: "alice" })).toBe(true);
+      expect(matchesFilter(b, { priority: "normal" })).toBe(true);
+      expect(matchesFilter(b, { tag: "api" })).toBe(false);
+      expect(matchesFilter(a, { dueBefore: "2026-01-31" })).toBe(true);
+      expect(matchesFilter(b, { dueBefore: "2026-01-31" })).toBe(false);
+    });
+
+    it("should show attributes in the task list", () => {
+      storage.addTask("project", "Task 1", { priority: "high", assignee: "bob", tags: ["ui"], estimate: 2 });
+
+      expect(formatTaskList(storage.getProject("project")!)).toContain("#1: Task 1 {high, @bob, 2h, #ui}");
+    });
+
+    it("should rank ready tasks by priority first", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2", { blockedBy: ["1"] });
+      storage.addTask("project", "Task 3", { priority: "urgent" });
+      storage.addTask("project", "Task 4", { priority: "low" });
+
+      expect(storage.getReadyTasks("project").map(r => r.task.id)).toEqual(["3", "1", "4"]);
     });
   });
-});
 
-describe("formatting helpers", () => {
-  it("placeholder for formatting tests", () => {
-    // formatTaskList and formatActiveTasksSummary are internal
-    // Full integration tests would cover these via plugin tools
-    expect(true).toBe(true);
+  describe("ready queue", () => {
+    it("should only offer pending tasks with no open blockers", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2", { blockedBy: ["1"] });
+      storage.addTask("project", "Task 3");
+      storage.updateTaskStatus("project", "3", "in_progress");
+
+      const ready = storage.getReadyTasks("project");
+
+      expect(ready.map(r => r.task.id)).toEqual(["1"]);
+      expect(ready[0].unblocks).toEqual(["2"]);
+    });
+
+    it("should rank tasks that unblock others first, then by age", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2");
+      storage.addTask("project", "Task 3");
+      storage.addTask("project", "Task 4", { blockedBy: ["3"] });
+
+      expect(storage.getReadyTasks().map(r => r.task.id)).toEqual(["3", "1", "2"]);
+    });
+
+    it("should skip paused projects when no project is given", () => {
+      storage.addTask("active", "Task 1");
+      storage.addTask("paused", "Task 1");
+      const paused = storage.getProject("paused")!;
+      paused.status = "paused";
+      storage.saveProject(paused);
+
+      expect(storage.getReadyTasks().map(r => r.project)).toEqual(["active"]);
+    });
+
+    it("should claim the next task", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2");
+
+      const first = storage.nextTask("project", { claim: true });
+      const second = storage.nextTask("project", { claim: true });
+
+      expect(first!.task.id).toBe("1");
+      expect(first!.task.status).toBe("in_progress");
+      expect(second!.task.id).toBe("2");
+      expect(storage.nextTask("project", { claim: true })).toBeNull();
+    });
+
+    it("should refuse to claim a task that is not ready", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2", { blockedBy: ["1"] });
+
+      expect(() => storage.claimTask("project", "2")).toThrow("not ready");
+    });
+  });
+
+  describe("dependency validation", () => {
+    function writeTasks(tasks: Array<Partial<Task> & { id: string }>): void {
+      storage.createProject("project");
+      const data = storage.getProject("project")!;
+      data.tasks = tasks.map(t => ({
+        subject: `Task ${t.id}`, status: "pending", blockedBy: [], blocks: [], notes: "", ...t,
+      }) as Task);
+      storage.saveProject(data);
+    }
+
+    it("should report a healthy graph as clean", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2", { blockedBy: ["1"] });
+
+      expect(storage.checkDependencies("project")).toEqual([]);
+    });
+
+    it("should find cycles, dangling IDs and asymmetry", () => {
+      writeTasks([
+        { id: "1", status: "blocked", blockedBy: ["2"], blocks: ["2"] },
+        { id: "2", status: "blocked", blockedBy: ["1", "9"], blocks: ["1"] },
+        { id: "3", blocks: ["1"] },
+      ]);
+
+      const kinds = storage.checkDependencies("project").map(i => i.kind).sort();
+
+      expect(kinds).toEqual(["asymmetric", "cycle", "dangling"]);
+    });
+
+    it("should repair the issues it finds", () => {
+      writeTasks([
+        { id: "1", status: "blocked", blockedBy: ["2", "1"], blocks: ["2"] },
+        { id: "2", status: "blocked", blockedBy: ["1", "9"], blocks: ["1"] },
+        { id: "3", status: "blocked" },
+      ]);
+
+      const fixed = storage.checkDependencies("project", { repair: true });
+
+      expect(fixed.length).toBeGreaterThan(0);
+      const data = storage.getProject("project")!;
+      expect(findDependencyIssues(data.tasks)).toEqual([]);
+      expect(data.tasks[2].status).toBe("pending");
+    });
+  });
+
+  describe("task lifecycle", () => {
+    it("should rename a task and its plan item", () => {
+      storage.updatePlan("project", { phases: "- [ ] Wrte code" });
+
+      storage.renameTask("project", "1", "Write code");
+
+      expect(storage.getProject("project")!.tasks[0].subject).toBe("Write code");
+      expect(storage.getPlan("project")).toContain("- [ ] Write code <!-- task:1 -->");
+    });
+
+    it("should reject an empty subject", () => {
+      storage.addTask("project", "Task 1");
+
+      expect(() => storage.renameTask("project", "1", "  ")).toThrow("must not be empty");
+    });
+
+    it("should delete a task and clean up references", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2", { blockedBy: ["1"] });
+      storage.addTask("project", "Task 3");
+
+      const { unblocked } = storage.deleteTask("project", "1");
+
+      expect(unblocked).toEqual(["2"]);
+      const data = storage.getProject("project")!;
+      expect(data.tasks.map(t => t.id)).toEqual(["2", "3"]);
+      expect(data.tasks[0].blockedBy).toEqual([]);
+      expect(data.tasks[0].status).toBe("pending");
+      expect(storage.addTask("project", "Task 4").id).toBe("4");
+    });
+
+    it("should never reuse the ID of a deleted or moved task", () => {
+      storage.addTask("project", "One");
+      storage.addTask("project", "Two");
+      storage.deleteTask("project", "2");
+      expect(storage.addTask("project", "Three").id).toBe("3");
+
+      storage.moveTask("project", "3", "other");
+      expect(storage.addTask("project", "Four").id).toBe("4");
+      expect(storage.getHistory("project", { taskId: "2" }).map(e => e.after?.subject ?? null)).toEqual(["Two", null]);
+    });
+
+    it("should drop the deleted task's plan item", () => {
+      storage.updatePlan("project", { phases: "- [ ] Keep\n- [ ] Drop" });
+
+      storage.deleteTask("project", "2");
+
+      const plan = storage.getPlan("project")!;
+      expect(plan).toContain("Keep");
+      expect(plan).not.toContain("Drop");
+    });
+
+    it("should move a task to another project with a new ID", () => {
+      storage.addTask("source", "Task 1");
+      storage.addTask("source", "Task 2", { blockedBy: ["1"], priority: "high" });
+      storage.addTask("target", "Existing");
+
+      const { task, oldId, droppedDependencies } = storage.moveTask("source", "2", "target");
+
+      expect(oldId).toBe("2");
+      expect(task.id).toBe("2");
+      expect(task.priority).toBe("high");
+      expect(task.status).toBe("pending");
+      expect(droppedDependencies).toEqual(["1"]);
+      expect(storage.getProject("source")!.tasks[0].blocks).toEqual([]);
+      expect(storage.getProject("target")!.tasks.map(t => t.subject)).toEqual(["Existing", "Task 2"]);
+    });
+
+    it("should reorder a task among its siblings", () => {
+      storage.addTask("project", "One");
+      storage.addTask("project", "Two");
+      storage.addTask("project", "Child", { parentId: "1" });
+      storage.addTask("project", "Three");
+
+      expect(storage.reorderTask("project", "4", "1").map(t => t.id)).toEqual(["4", "1", "2"]);
+      expect(storage.reorderTask("project", "4").map(t => t.id)).toEqual(["1", "2", "4"]);
+      expect(() => storage.reorderTask("project", "2", "3")).toThrow("isn't a sibling");
+
+      storage.reorderTask("project", "2", "1");
+      expect(formatTaskList(storage.getProject("project")!).indexOf("#2")).toBeLessThan(
+        formatTaskList(storage.getProject("project")!).indexOf("#1")
+      );
+    });
+
+    it("should refuse to move a task into its own project", () => {
+      storage.addTask("project", "Task 1");
+
+      expect(() => storage.moveTask("project", "1", "project")).toThrow("already in project");
+    });
+
+    it("should update project status and the plan header", () => {
+      storage.createProject("project");
+
+      storage.updateProjectStatus("project", "paused");
+
+      expect(storage.getProject("project")!.status).toBe("paused");
+      expect(storage.getPlan("project")).toContain("**Status:** paused");
+      expect(storage.getActiveProjects()).toHaveLength(0);
+      expect(() => storage.updateProjectStatus("project", "done" as never)).toThrow("Invalid project status");
+    });
+  });
+
+  describe("subtasks", () => {
+    it("should create a subtask under an existing parent", () => {
+      storage.addTask("project", "Epic");
+
+      const child = storage.addTask("project", "Step", { parentId: "1" });
+
+      expect(child.parentId).toBe("1");
+      expect(() => storage.addTask("project", "Orphan", { parentId: "9" })).toThrow("Parent task '9' not found");
+    });
+
+    it("should complete the parent when all subtasks complete and cascade unblocks", () => {
+      storage.addTask("project", "Epic");
+      storage.addTask("project", "Step 1", { parentId: "1" });
+      storage.addTask("project", "Step 2", { parentId: "1" });
+      storage.addTask("project", "After epic", { blockedBy: ["1"] });
+
+      let result = storage.updateTaskStatus("project", "2", "completed");
+      expect(result.parentsCompleted).toEqual([]);
+
+      result = storage.updateTaskStatus("project", "3", "completed");
+      expect(result.parentsCompleted).toEqual(["1"]);
+      expect(result.unblocked).toEqual(["4"]);
+      expect(storage.getProject("project")!.tasks[0].status).toBe("completed");
+    });
+
+    it("should leave a parent blocked while it waits on an open blocker", () => {
+      storage.addTask("project", "Design");
+      storage.addTask("project", "Epic", { blockedBy: ["1"] });
+      storage.addTask("project", "Step", { parentId: "2" });
+
+      const { parentsCompleted } = storage.updateTaskStatus("project", "3", "completed");
+
+      expect(parentsCompleted).toEqual([]);
+      expect(storage.getProject("project")!.tasks[1].status).toBe("blocked");
+    });
+
+    it("should roll up through several levels", () => {
+      storage.addTask("project", "Epic");
+      storage.addTask("project", "Task", { parentId: "1" });
+      storage.addTask("project", "Step", { parentId: "2" });
+
+      const { parentsCompleted } = storage.updateTaskStatus("project", "3", "completed");
+
+      expect(parentsCompleted).toEqual(["2", "1"]);
+    });
+
+    it("should reopen a completed parent when a subtask reopens or is added", () => {
+      storage.addTask("project", "Epic");
+      storage.addTask("project", "Step 1", { parentId: "1" });
+      storage.addTask("project", "After epic", { blockedBy: ["1"] });
+      storage.updateTaskStatus("project", "2", "completed");
+
+      const { parentsReopened, reblocked } = storage.updateTaskStatus("project", "2", "in_progress");
+      expect(parentsReopened).toEqual(["1"]);
+      expect(reblocked).toEqual(["3"]);
+
+      storage.updateTaskStatus("project", "2", "completed");
+      storage.addTask("project", "Step 2", { parentId: "1" });
+      expect(storage.getProject("project")!.tasks[0].status).toBe("pending");
+    });
+
+    it("should refuse to complete a parent with open subtasks", () => {
+      storage.addTask("project", "Epic");
+      storage.addTask("project", "Step", { parentId: "1" });
+
+      expect(() => storage.updateTaskStatus("project", "1", "completed")).toThrow("open subtasks: #2");
+    });
+
+    it("should not offer parents with open subtasks as ready", () => {
+      storage.addTask("project", "Epic");
+      storage.addTask("project", "Step", { parentId: "1" });
+
+      expect(storage.getReadyTasks("project").map(r => r.task.id)).toEqual(["2"]);
+    });
+
+    it("should render an indented tree with progress", () => {
+      storage.addTask("project", "Epic");
+      storage.addTask("project", "Step 1", { parentId: "1" });
+      storage.addTask("project", "Step 2", { parentId: "1" });
+      storage.addTask("project", "Detail", { parentId: "3" });
+      storage.addTask("project", "Other");
+      storage.updateTaskStatus("project", "2", "completed");
+
+      expect(formatTaskList(storage.getProject("project")!)).toBe([
+        "=== project ===",
+        "[ ] #1: Epic [1/2]",
+        "  [✓] #2: Step 1",
+        "  [ ] #3: Step 2 [0/1]",
+        "    [ ] #4: Detail",
+        "[ ] #5: Other",
+      ].join("\n"));
+    });
+
+    it("should move subtasks up when their parent is deleted", () => {
+      storage.addTask("project", "Epic");
+      storage.addTask("project", "Task", { parentId: "1" });
+      storage.addTask("project", "Step", { parentId: "2" });
+
+      storage.deleteTask("project", "2");
+
+      expect(storage.getProject("project")!.tasks[1].parentId).toBe("1");
+    });
+
+    it("should move a subtree with remapped IDs", () => {
+      storage.addTask("source", "Other");
+      storage.addTask("source", "Epic");
+      storage.addTask("source", "Step 1", { parentId: "2" });
+      storage.addTask("source", "Step 2", { parentId: "2", blockedBy: ["3", "1"] });
+      storage.addTask("target", "Existing");
+
+      const { idMap, droppedDependencies } = storage.moveTask("source", "2", "target");
+
+      expect(idMap).toEqual({ "2": "2", "3": "3", "4": "4" });
+      expect(droppedDependencies).toEqual(["1"]);
+      const target = storage.getProject("target")!;
+      expect(target.tasks[1].parentId).toBeUndefined();
+      expect(target.tasks[3].parentId).toBe("2");
+      expect(target.tasks[3].blockedBy).toEqual(["3"]);
+      expect(storage.getProject("source")!.tasks.map(t => t.id)).toEqual(["1"]);
+    });
+
+    it("should repair unknown parents", () => {
+      storage.addTask("project", "Step");
+      const data = storage.getProject("project")!;
+      data.tasks[0].parentId = "9";
+      storage.saveProject(data);
+
+      expect(storage.checkDependencies("project").map(i => i.kind)).toEqual(["parent"]);
+      storage.checkDependencies("project", { repair: true });
+      expect(storage.getProject("project")!.tasks[0].parentId).toBeUndefined();
+    });
+  });
+
+  describe("cross-project dependencies", () => {
+    const statusOf = (project: string, id: string) =>
+      storage.getProject(project)!.tasks.find(t => t.id === id)!.status;
+
+    it("should block on a task in another project and link it back", () => {
+      storage.addTask("api", "Ship endpoint");
+
+      const task = storage.addTask("web", "Use endpoint", { blockedBy: ["API#1"] });
+
+      expect(task.blockedBy).toEqual(["api#1"]);
+      expect(task.status).toBe("blocked");
+      expect(storage.getProject("api")!.tasks[0].blocks).toEqual(["web#1"]);
+      expect(() => storage.addTask("web", "Nope", { blockedBy: ["api#9"] })).toThrow("Unknown blocker task(s) in project 'web': api#9");
+    });
+
+    it("should store a reference to the same project as a plain ID", () => {
+      storage.addTask("web", "First");
+
+      expect(storage.addTask("web", "Second", { blockedBy: ["web#1"] }).blockedBy).toEqual(["1"]);
+    });
+
+    it("should unblock and re-block dependents across projects", () => {
+      storage.addTask("api", "Ship endpoint");
+      storage.addTask("web", "Use endpoint", { blockedBy: ["api#1"] });
+      storage.addTask("web", "Polish", { blockedBy: ["1"] });
+
+      const completed = storage.updateTaskStatus("api", "1", "completed");
+      expect(completed.unblocked).toEqual(["web#1"]);
+      expect(statusOf("web", "1")).toBe("pending");
+
+      storage.updateTaskStatus("web", "1", "completed");
+      const reopened = storage.updateTaskStatus("api", "1", "in_progress");
+      expect(reopened.reblocked).toEqual([]);
+      expect(statusOf("web", "1")).toBe("completed");
+
+      storage.updateTaskStatus("web", "1", "pending");
+      storage.updateTaskStatus("api", "1", "completed");
+      expect(storage.updateTaskStatus("api", "1", "pending").reblocked).toEqual(["web#1"]);
+    });
+
+    it("should propagate when a parent completes by roll-up", () => {
+      storage.addTask("api", "Epic");
+      storage.addTask("api", "Step", { parentId: "1" });
+      storage.addTask("web", "After epic", { blockedBy: ["api#1"] });
+
+      expect(storage.updateTaskStatus("api", "2", "completed").unblocked).toEqual(["web#1"]);
+    });
+
+    it("should add external blockers with setBlocker and reject cross-project cycles", () => {
+      storage.addTask("api", "Endpoint");
+      storage.addTask("web", "Page");
+      storage.setBlocker("web", "1", "api#1");
+
+      expect(statusOf("web", "1")).toBe("blocked");
+      expect(() => storage.setBlocker("api", "1", "web#1")).toThrow(
+        "Blocking #1 on web#1 would create a dependency cycle: #1 → web#1 → #1 (→ = blocked by)"
+      );
+      expect(() => storage.setBlocker("web", "1", "api#7")).toThrow("Task '7' not found in project 'api'");
+    });
+
+    it("should show external blockers with their live status", () => {
+      storage.addTask("api", "Endpoint");
+      storage.addTask("web", "Page", { blockedBy: ["api#1"] });
+      storage.updateTaskStatus("api", "1", "in_progress");
+
+      const web = storage.getProject("web")!;
+      expect(formatTaskList(web, web.tasks, storage.resolveExternalTasks(web.tasks)))
+        .toContain("[⊘] #1: Page (blocked by: api#1 [in_progress])");
+    });
+
+    it("should unlink other projects when a task is deleted or moved", () => {
+      storage.addTask("api", "Endpoint");
+      storage.addTask("api", "Docs");
+      storage.addTask("web", "Page", { blockedBy: ["api#1"] });
+
+      const { unblocked } = storage.deleteTask("api", "1");
+      expect(unblocked).toEqual(["web#1"]);
+      expect(storage.getProject("web")!.tasks[0]).toMatchObject({ status: "pending", blockedBy: [] });
+
+      storage.setBlocker("web", "1", "api#2");
+      const moved = storage.moveTask("api", "2", "docs");
+      expect(moved.droppedDependencies).toEqual(["web#1"]);
+      expect(moved.unblocked).toEqual(["web#1"]);
+    });
+
+    it("should resolve external blockers in the ready queue and dependency checks", () => {
+      storage.addTask("api", "Endpoint");
+      storage.addTask("web", "Page", { blockedBy: ["api#1"] });
+      storage.addTask("web", "Footer");
+
+      expect(storage.getReadyTasks().map(r => `${r.project}#${r.task.id}`)).toEqual(["api#1", "web#2"]);
+      expect(storage.checkDependencies("web")).toEqual([]);
+
+      const data = storage.getProject("web")!;
+      data.tasks[1].blockedBy.push("gone#3");
+      storage.saveProject(data);
+      expect(storage.checkDependencies("web").map(i => i.kind)).toEqual(["dangling"]);
+      storage.checkDependencies("web", { repair: true });
+      expect(storage.getProject("web")!.tasks.map(t => t.blockedBy)).toEqual([["api#1"], []]);
+    });
+  });
+
+  describe("source import", () => {
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, file), content);
+    };
+
+    it("should find TODO and FIXME comments, skipping dependencies and hidden dirs", () => {
+      write("src/a.ts", "const a = 1;\n// TODO: handle errors\n/* FIXME(bob): leaks memory */\n// todo lowercase\n");
+      write("node_modules/x/index.js", "// TODO: not ours\n");
+      write(".cache/b.ts", "// TODO: hidden\n");
+
+      expect(scanTodoComments(path.join(tempDir, "src"), tempDir)).toEqual([
+        { file: "src/a.ts", line: 2, text: "handle errors", done: false, tag: "todo" },
+        { file: "src/a.ts", line: 3, text: "leaks memory", done: false, tag: "fixme" },
+      ]);
+      expect(scanTodoComments(tempDir, tempDir)).toHaveLength(2);
+    });
+
+    it("should create tasks once and track moved and removed TODOs", () => {
+      write("src/a.ts", "// TODO: handle errors\n// TODO: add retries\n");
+      const scan = () => scanTodoComments(path.join(tempDir, "src"), tempDir);
+
+      const first = storage.importSourceItems("project", scan(), { scope: "src" });
+      expect(first.created.map(t => t.subject)).toEqual(["handle errors", "add retries"]);
+      expect(first.created[0]).toMatchObject({ notes: "Source: src/a.ts:1", tags: ["todo"] });
+
+      write("src/a.ts", "\n// TODO: add retries\n");
+      const second = storage.importSourceItems("project", scan(), { scope: "src", completeMissing: true });
+      expect(second).toMatchObject({ created: [], unchanged: 1 });
+      expect(second.completed.map(t => t.subject)).toEqual(["handle errors"]);
+
+      write("src/a.ts", "\n\n// TODO: add retries\n");
+      const third = storage.importSourceItems("project", scan(), { scope: "src" });
+      expect(third.updated.map(t => t.subject)).toEqual(["add retries"]);
+      expect(storage.getProject("project")!.tasks[1].notes).toBe("Source: src/a.ts:3");
+      expect(storage.getProject("project")!.tasks).toHaveLength(2);
+    });
+
+    it("should import markdown checklists and complete checked items", () => {
+      write("docs/plan.md", "# Plan\n\n- [ ] Write docs\n- [x] Set up CI <!-- task:4 -->\n* not a task\n");
+      const items = scanMarkdownChecklist(path.join(tempDir, "docs/plan.md"), tempDir);
+      expect(items.map(i => [i.text, i.done])).toEqual([["Write docs", false], ["Set up CI", true]]);
+
+      const result = storage.importSourceItems("project", items);
+      expect(result.completed.map(t => t.subject)).toEqual(["Set up CI"]);
+
+      write("docs/plan.md", "- [x] Write docs\n- [x] Set up CI\n");
+      const again = storage.importSourceItems("project", scanMarkdownChecklist(path.join(tempDir, "docs/plan.md"), tempDir));
+      expect(again.completed.map(t => t.subject)).toEqual(["Write docs"]);
+      expect(again.created).toEqual([]);
+    });
+  });
+
+  describe("project templates", () => {
+    const release: ProjectTemplate = {
+      description: "Design → implement → test → release",
+      variables: { owner: "alice" },
+      plan: ["# {{project}}", "", "## Goal", "Ship {{feature}}", ""],
+      tasks: [
+        { key: "design", subject: "Design {{feature}}", assignee: "{{owner}}" },
+        { key: "build", subject: "Implement {{feature}}", blockedBy: ["design"] },
+        { subject: "Unit tests", parent: "build" },
+        { key: "release", subject: "Release {{feature}}", blockedBy: ["build"], tags: ["release"] },
+      ],
+    };
+
+    it("should create the plan and a wired task graph", () => {
+      const { data, tasks } = storage.createFromTemplate("login", release, { feature: "SSO" });
+
+      expect(tasks.map(t => t.subject)).toEqual(["Design SSO", "Implement SSO", "Unit tests", "Release SSO"]);
+      expect(data.tasks.map(t => [t.id, t.status, t.blockedBy, t.parentId])).toEqual([
+        ["1", "pending", [], undefined],
+        ["2", "blocked", ["1"], undefined],
+        ["3", "pending", [], "2"],
+        ["4", "blocked", ["2"], undefined],
+      ]);
+      expect(data.tasks[0].assignee).toBe("alice");
+      expect(storage.getPlan("login")).toBe("# login\n\n## Goal\nShip SSO\n");
+    });
+
+    it("should reject missing placeholders, bad keys and existing projects", () => {
+      expect(() => storage.createFromTemplate("login", release)).toThrow("Template needs a value for: feature");
+      expect(storage.getProject("login")).toBeNull();
+
+      expect(() => storage.createFromTemplate("login", { tasks: [{ subject: "A", blockedBy: ["2"] }, { subject: "B" }] }))
+        .toThrow("task '1' refers to '2', which must be an earlier task's key");
+
+      storage.createProject("login");
+      expect(() => storage.createFromTemplate("login", release, { feature: "SSO" })).toThrow("Project 'login' already exists");
+    });
+
+    it("should link blockers in other projects", () => {
+      storage.addTask("api", "Endpoint");
+
+      const { tasks } = storage.createFromTemplate("login", { tasks: [{ subject: "Use endpoint", blockedBy: ["api#1"] }] });
+
+      expect(tasks[0]).toMatchObject({ status: "blocked", blockedBy: ["api#1"] });
+      expect(storage.getProject("api")!.tasks[0].blocks).toEqual(["login#1"]);
+    });
+
+    it("should write nothing when a filled value is invalid", () => {
+      const template: ProjectTemplate = { ...release, tasks: [...release.tasks!, { subject: "Announce", due: "{{due}}" }] };
+
+      expect(() => storage.createFromTemplate("login", template, { feature: "SSO", due: "next week" }))
+        .toThrow("Invalid due date 'next week'");
+      expect(storage.getProject("login")).toBeNull();
+      expect(storage.getPlan("login")).toBeNull();
+    });
+
+    it("should log the whole project as one change", () => {
+      storage.createFromTemplate("login", release, { feature: "SSO" });
+
+      const history = storage.getHistory("login");
+      expect(history).toHaveLength(4);
+      expect(new Set(history.map(e => e.change)).size).toBe(1);
+    });
+
+    it("should load templates from a directory", () => {
+      const dir = path.join(tempDir, "templates");
+      fs.mkdirSync(dir);
+      fs.writeFileSync(path.join(dir, "release.json"), JSON.stringify(release));
+      fs.writeFileSync(path.join(dir, "broken.json"), JSON.stringify({ tasks: [{ subject: 1 }] }));
+
+      expect(listTemplates(dir)).toEqual(["broken", "release"]);
+      expect(loadTemplate(dir, "release")).toEqual(release);
+      expect(() => loadTemplate(dir, "broken")).toThrow("Template 'broken' is invalid: /tasks/0/subject");
+      expect(() => loadTemplate(dir, "missing")).toThrow("Template 'missing' not found in");
+      expect(listTemplates(path.join(tempDir, "none"))).toEqual([]);
+    });
+  });
+
+  describe("claims", () => {
+    const asSession = (session: string) =>
+      new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"), { session });
+    const expireClaim = (taskId: string) => {
+      const data = storage.getProject("project")!;
+      data.tasks.find(t => t.id === taskId)!.claim!.expires = new Date(Date.now() - 1000).toISOString();
+      storage.saveProject(data);
+    };
+
+    it("should record the owner and keep other sessions out", () => {
+      const alice = asSession("alice");
+      const bob = asSession("bob");
+      alice.addTask("project", "Shared");
+
+      const task = alice.claimTask("project", "1");
+      expect(task.status).toBe("in_progress");
+      expect(task.claim!.owner).toBe("alice");
+      expect(Date.parse(task.claim!.expires) - Date.parse(task.claim!.at)).toBe(30 * 60_000);
+
+      expect(() => bob.claimTask("project", "1")).toThrow(TaskClaimedError);
+      expect(() => bob.updateTaskStatus("project", "1", "completed")).toThrow("is claimed by alice until");
+      expect(() => bob.updateTaskNotes("project", "1", "mine now")).toThrow(TaskClaimedError);
+      expect(() => bob.releaseTask("project", "1")).toThrow(TaskClaimedError);
+
+      alice.updateTaskNotes("project", "1", "Halfway");
+      bob.updateTaskFields("project", "1", { priority: "high" }, { force: true });
+      expect(alice.updateTaskStatus("project", "1", "completed").task.claim).toBeUndefined();
+    });
+
+    it("should keep other sessions from blocking, commenting on, deleting or moving a claimed task", () => {
+      const alice = asSession("alice");
+      const bob = asSession("bob");
+      alice.addTask("project", "Shared");
+      alice.addTask("project", "Step", { parentId: "1" });
+      alice.addTask("project", "Other");
+      alice.claimTask("project", "2");
+
+      expect(() => bob.setBlocker("project", "2", "3")).toThrow(TaskClaimedError);
+      expect(() => bob.addComment("project", "2", "Mine now")).toThrow(TaskClaimedError);
+      expect(() => bob.deleteTask("project", "2")).toThrow(TaskClaimedError);
+      // Moving the parent takes the claimed subtask along
+      expect(() => bob.moveTask("project", "1", "elsewhere")).toThrow(TaskClaimedError);
+      expect(alice.getProject("project")!.tasks[1]).toMatchObject({ status: "in_progress", blockedBy: [] });
+      expect(alice.getProject("project")!.tasks[1].comments).toBeUndefined();
+
+      bob.setBlocker("project", "2", "3", { force: true });
+      bob.addComment("project", "2", "Taking over", { force: true });
+      bob.moveTask("project", "1", "elsewhere", { force: true });
+      bob.deleteTask("elsewhere", "2", { force: true });
+      expect(bob.getProject("elsewhere")!.tasks.map(t => t.subject)).toEqual(["Shared"]);
+    });
+
+    it("should let the owner release and anyone take over an expired lease", () => {
+      const alice = asSession("alice");
+      const bob = asSession("bob");
+      alice.addTask("project", "Blocker");
+      alice.addTask("project", "Shared");
+
+      alice.claimTask("project", "2");
+      const released = alice.releaseTask("project", "2");
+      expect(released).toMatchObject({ status: "pending" });
+      expect(released.claim).toBeUndefined();
+
+      alice.claimTask("project", "2");
+      expireClaim("2");
+      expect(bob.claimTask("project", "2").claim!.owner).toBe("bob");
+      expect(() => alice.claimTask("project", "2")).toThrow(TaskClaimedError);
+      expect(alice.claimTask("project", "2", { force: true }).claim!.owner).toBe("alice");
+    });
+
+    it("should reject a lease that isn't a positive number of minutes", () => {
+      const alice = asSession("alice");
+      alice.addTask("project", "Shared");
+
+      for (const leaseMinutes of [NaN, Infinity, 0, -5]) {
+        expect(() => alice.claimTask("project", "1", { leaseMinutes })).toThrow(
+          `Invalid lease '${leaseMinutes}' (expected a positive number of minutes)`,
+        );
+      }
+      expect(alice.getProject("project")!.tasks[0]).toMatchObject({ status: "pending" });
+      expect(alice.claimTask("project", "1", { leaseMinutes: 0.5 }).claim!.owner).toBe("alice");
+    });
+
+    it("should revert expired claims to pending", () => {
+      const alice = asSession("alice");
+      alice.addTask("project", "Abandoned");
+      alice.addTask("project", "Current");
+      alice.claimTask("project", "1");
+      alice.claimTask("project", "2");
+      expireClaim("1");
+
+      const released = storage.releaseExpiredClaims();
+
+      expect(released.map(r => r.task.id)).toEqual(["1"]);
+      expect(storage.getProject("project")!.tasks.map(t => [t.status, t.claim?.owner])).toEqual([
+        ["pending", undefined],
+        ["in_progress", "alice"],
+      ]);
+    });
+
+    it("should show who holds in-progress tasks in the summary", () => {
+      asSession("alice").addTask("project", "Shared");
+      asSession("alice").claimTask("project", "1");
+
+      expect(formatActiveTasksSummary(storage.getActiveProjects())).toContain("#1: Shared (held by alice)");
+    });
+  });
+
+  describe("task notes", () => {
+    it("should update task notes", () => {
+      storage.addTask("project", "My task");
+      
+      storage.updateTaskNotes("project", "1", "Some notes here");
+      
+      const data = storage.getProject("project")!;
+      expect(data.tasks[0].notes).toBe("Some notes here");
+    });
+
+    it("should throw on non-existent task", () => {
+      storage.createProject("project");
+      
+      expect(() => {
+        storage.updateTaskNotes("project", "999", "notes");
+      }).toThrow("Task '999' not found");
+    });
+
+    it("should append comments instead of replacing them", () => {
+      storage = new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"), { session: "main" });
+      storage.addTask("project", "My task");
+
+      storage.addComment("project", "1", "First");
+      storage.addComment("project", "1", "Second");
+
+      const comments = storage.getProject("project")!.tasks[0].comments!;
+      expect(comments.map(c => c.text)).toEqual(["First", "Second"]);
+      expect(comments[0].session).toBe("main");
+      expect(comments[0].at).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    });
+  });
+
+  describe("task updates", () => {
+    it("should apply an update and describe each change", () => {
+      storage.addTask("project", "First");
+      storage.addTask("project", "Second", { blockedBy: ["1"] });
+
+      const results = updateTask(storage, "project", "1", { status: "completed", priority: "high", comment: "Shipped" });
+
+      expect(results).toEqual([
+        "Task #1 updated: {high}",
+        "Task #1 status: completed",
+        "Task #2 unblocked!",
+        "Comment added to task #1",
+      ]);
+      const data = storage.getProject("project")!;
+      expect(formatTaskDetails(data, data.tasks[0])).toContain("Blocks: 2");
+      expect(formatTaskDetails(data, data.tasks[0])).toMatch(/Comments:\n {2}.* Shipped$/);
+      // One change covering the task and the dependent it unblocked
+      const last = storage.getHistory("project").at(-1)!.change;
+      expect(storage.getHistory("project").filter(e => e.change === last).map(e => e.taskId)).toEqual(["1", "2"]);
+    });
+
+    it("should apply nothing if any part of the update fails", () => {
+      storage.updatePlan("project", { phases: "- [ ] Release" });
+      storage.addTask("project", "Changelog", { parentId: "1" });
+
+      expect(() => updateTask(storage, "project", "1", { subject: "Ship it", notes: "Soon", status: "completed" }))
+        .toThrow("has open subtasks");
+      const data = storage.getProject("project")!;
+      expect(data.tasks[0]).toMatchObject({ subject: "Release", notes: "" });
+      expect(storage.getPlan("project")).toContain("- [ ] Release <!-- task:1 -->");
+      expect(storage.getHistory("project")).toHaveLength(2);
+    });
+  });
+
+  describe("external edits", () => {
+    const editFile = (file: string, edit: (content: string) => string) =>
+      fs.writeFileSync(file, edit(fs.readFileSync(file, "utf-8")));
+    const editProject = (edit: (data: TaskProject) => void) =>
+      editFile(path.join(tempDir, "tasks", "project.json"), content => {
+        const data = JSON.parse(content);
+        edit(data);
+        return JSON.stringify(data, null, 2);
+      });
+
+    it("should merge edits made to the file since it was read", () => {
+      storage.addTask("project", "First");
+      storage.addTask("project", "Second");
+      const data = storage.getProject("project")!;
+      data.tasks[0].status = "in_progress";
+
+      editProject(edited => {
+        edited.tasks[0].notes = "From the editor";
+        edited.tasks[1].subject = "Renamed by hand";
+      });
+      storage.saveProject(data);
+
+      const saved = storage.getProject("project")!;
+      expect(saved.tasks[0]).toMatchObject({ status: "in_progress", notes: "From the editor" });
+      expect(saved.tasks[1].subject).toBe("Renamed by hand");
+    });
+
+    it("should refuse to overwrite conflicting edits", () => {
+      storage.addTask("project", "First");
+      const data = storage.getProject("project")!;
+      data.tasks[0].subject = "Mine";
+
+      editProject(edited => {
+        edited.tasks[0].subject = "Theirs";
+      });
+
+      expect(() => storage.saveProject(data)).toThrow(ProjectConflictError);
+      expect(() => storage.saveProject(data)).toThrow("#1 subject");
+      expect(storage.getProject("project")!.tasks[0].subject).toBe("Theirs");
+    });
+
+    it("should apply ticked plan items but not create tasks from new ones", () => {
+      storage.updatePlan("project", { phases: "- [ ] Write docs" });
+      const planPath = path.join(tempDir, "plans", "project.md");
+
+      editFile(planPath, content => content.replace(/- \[ \] (Write docs.*)/, "- [x] $1\n- [ ] New step"));
+      const result = storage.reconcileExternalEdit("project", "plan");
+
+      expect(result).toMatchObject({ created: [], completed: ["1"] });
+      expect(storage.getProject("project")!.tasks).toHaveLength(1);
+      expect(fs.readFileSync(planPath, "utf-8")).toContain("- [ ] New step\n");
+    });
+
+    it("should tick the plan when a task is completed by hand", () => {
+      storage.updatePlan("project", { phases: "- [ ] Write docs" });
+
+      editProject(edited => {
+        edited.tasks[0].status = "completed";
+      });
+      storage.reconcileExternalEdit("project", "tasks");
+
+      expect(storage.getPlan("project")).toContain("- [x] Write docs <!-- task:1 -->");
+    });
+  });
+
+  describe("archiving", () => {
+    const archiveDir = () => path.join(tempDir, "tasks", "archive");
+
+    it("should move a completed project out of the workspace and restore it", () => {
+      storage.addTask("done", "Ship it");
+      storage.updateTaskStatus("done", "1", "completed");
+      storage.updateProjectStatus("done", "completed");
+      storage.addTask("other", "Keep going");
+
+      storage.archiveProject("done");
+
+      expect(storage.listProjects()).toEqual(["other"]);
+      expect(storage.getPlan("done")).toBeNull();
+      expect(storage.listArchivedProjects()).toEqual(["done"]);
+      expect(storage.getArchivedProject("done")!.tasks[0].subject).toBe("Ship it");
+      expect(fs.existsSync(path.join(archiveDir(), "done.json"))).toBe(true);
+
+      const restored = storage.restoreProject("done");
+
+      expect(restored.status).toBe("completed");
+      expect(storage.getHistory("done")).toHaveLength(2);
+      expect(storage.getPlan("done")).toContain("**Status:** completed");
+      expect(storage.listArchivedProjects()).toEqual([]);
+    });
+
+    it("should only archive completed projects unless forced", () => {
+      storage.addTask("project", "Task");
+
+      expect(() => storage.archiveProject("project")).toThrow("only completed projects are archived");
+      storage.archiveProject("project", { force: true });
+      expect(storage.getProject("project")).toBeNull();
+    });
+
+    it("should archive completed projects once they have been idle long enough", () => {
+      storage.createProject("old");
+      storage.updateProjectStatus("old", "completed");
+      storage.createProject("active");
+
+      expect(storage.archiveCompletedProjects(7)).toEqual([]);
+      expect(storage.archiveCompletedProjects(7, Date.now() + 8 * 24 * 60 * 60 * 1000)).toEqual(["old"]);
+      expect(storage.listProjects()).toEqual(["active"]);
+    });
+
+    it("should hide archived tasks until they are reopened", () => {
+      storage.addTask("project", "Parent");
+      storage.addTask("project", "Done child", { parentId: "1" });
+      storage.addTask("project", "Open child", { parentId: "1" });
+      storage.addTask("project", "Finished");
+      storage.updateTaskStatus("project", "2", "completed");
+      storage.updateTaskStatus("project", "4", "completed");
+
+      // #2's parent is still open, so only #4 goes
+      expect(storage.archiveTasks("project").map(t => t.id)).toEqual(["4"]);
+      expect(storage.search("finished")).toEqual([]);
+      expect(storage.search("finished", { includeArchived: true })).toHaveLength(1);
+
+      storage.updateTaskStatus("project", "4", "pending");
+      expect(storage.getProject("project")!.tasks[3].archivedAt).toBeUndefined();
+    });
+
+    it("should skip a corrupted archive with a warning", () => {
+      const warnings: string[] = [];
+      storage = new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"), {
+        warn: message => warnings.push(message),
+      });
+      storage.addTask("done", "Ship it");
+      storage.archiveProject("done", { force: true });
+      fs.writeFileSync(path.join(archiveDir(), "broken.json"), "{ not json");
+
+      expect(storage.search("ship", { includeArchived: true })).toHaveLength(1);
+      expect(storage.getArchivedProject("broken")).toBeNull();
+      expect(warnings.some(w => w.includes("broken"))).toBe(true);
+      expect(() => storage.restoreProject("broken")).toThrow(ArchiveCorruptedError);
+      expect(() => storage.restoreProject("broken")).toThrow("corrupted");
+    });
+  });
+
+  describe("activity log", () => {
+    it("should record each change with its session", () => {
+      storage = new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"), { session: "main" });
+      storage.addTask("project", "Blocker");
+      storage.addTask("project", "Task", { blockedBy: ["1"] });
+      storage.updateTaskStatus("project", "1", "completed");
+
+      const history = storage.getHistory("project");
+
+      expect(history.map(formatEvent).map(line => line.slice(17))).toEqual([
+        "[main] #1 created: Blocker",
+        "[main] #1 blocks #2",
+        "[main] #2 created: Task",
+        "[main] #1 status pending → completed",
+        "[main] #2 status blocked → pending",
+      ]);
+      expect(new Set(history.slice(3).map(e => e.change)).size).toBe(1);
+    });
+
+    it("should filter and limit history", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2");
+      storage.updateTaskNotes("project", "1", "Notes");
+      storage.updateTaskStatus("project", "1", "in_progress");
+
+      const history = storage.getHistory("project", { taskId: "1", limit: 2 });
+
+      expect(history.map(e => e.taskId)).toEqual(["1", "1"]);
+      expect(history[0].after!.notes).toBe("Notes");
+    });
+
+    it("should undo the last change including its cascade", () => {
+      storage.addTask("project", "Blocker");
+      storage.addTask("project", "Task", { blockedBy: ["1"] });
+      storage.updateTaskStatus("project", "1", "completed");
+
+      storage.undo("project");
+
+      const data = storage.getProject("project")!;
+      expect(data.tasks.map(t => t.status)).toEqual(["pending", "blocked"]);
+      expect(data.tasks[0].completedAt).toBeUndefined();
+    });
+
+    it("should undo several changes and restore deleted tasks", () => {
+      storage.addTask("project", "Task 1");
+      storage.addTask("project", "Task 2");
+      storage.addTask("project", "Task 3");
+      storage.deleteTask("project", "2");
+      storage.renameTask("project", "3", "Renamed");
+
+      const reverted = storage.undo("project", 2);
+
+      expect(new Set(reverted.map(e => e.change)).size).toBe(2);
+      expect(storage.getProject("project")!.tasks.map(t => t.subject)).toEqual(["Task 1", "Task 2", "Task 3"]);
+    });
+
+    it("should undo a whole plan sync at once", () => {
+      storage.addTask("project", "Existing");
+
+      const synced = storage.updatePlan("project", { phases: "- [ ] Design\n- [x] Build\n- [ ] Ship" });
+      expect(synced.created.map(t => t.subject)).toEqual(["Design", "Build", "Ship"]);
+      expect(synced.completed).toEqual(["3"]);
+
+      storage.undo("project");
+
+      expect(storage.getProject("project")!.tasks.map(t => t.subject)).toEqual(["Existing"]);
+    });
+
+    it("should skip changes that were already undone", () => {
+      storage.addTask("project", "Task 1");
+      storage.updateTaskStatus("project", "1", "in_progress");
+      storage.updateTaskStatus("project", "1", "completed");
+
+      storage.undo("project");
+      storage.undo("project");
+
+      expect(storage.getProject("project")!.tasks[0].status).toBe("pending");
+      storage.undo("project");
+      expect(storage.getProject("project")!.tasks).toEqual([]);
+      expect(() => storage.undo("project")).toThrow("Nothing to undo");
+    });
+
+    it("should refuse to undo over changes made outside the log", () => {
+      storage.addTask("project", "Task 1");
+      const data = storage.getProject("project")!;
+      data.tasks[0].subject = "Edited by hand";
+      storage.saveProject(data);
+
+      expect(() => storage.undo("project")).toThrow("task #1 has changed since");
+      expect(storage.getProject("project")!.tasks[0].subject).toBe("Edited by hand");
+    });
+  });
+});
+
+describe("project names", () => {
+  let tempDir: string;
+  let storage: TaskStorage;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-test-"));
+    storage = new TaskStorage(
+      path.join(tempDir, "workspace", "tasks"),
+      path.join(tempDir, "workspace", "plans")
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should normalize case, whitespace and underscores", () => {
+    expect(normalizeProjectName("  My Cool_Project ")).toBe("my-cool-project");
+    expect(validateProjectName("API--v2")).toBe("api-v2");
+  });
+
+  it("should reject invalid names", () => {
+    for (const name of ["", "   ", "foo.bar", "foo/bar", "café", "-", "con", "lpt1", "a".repeat(65)]) {
+      expect(() => validateProjectName(name)).toThrow(InvalidProjectNameError);
+    }
+  });
+
+  it("should reject path traversal in every storage entry point", () => {
+    const attempts = ["../../etc/x", "..", "../escape", "nested/project", "..\\windows", "/abs/path"];
+
+    for (const name of attempts) {
+      expect(() => storage.createProject(name)).toThrow(InvalidProjectNameError);
+      expect(() => storage.addTask(name, "Task")).toThrow(InvalidProjectNameError);
+      expect(() => storage.getProject(name)).toThrow(InvalidProjectNameError);
+      expect(() => storage.getPlan(name)).toThrow(InvalidProjectNameError);
+      expect(() => storage.updatePlan(name, { goal: "x" })).toThrow(InvalidProjectNameError);
+      expect(() => storage.updateTaskStatus(name, "1", "completed")).toThrow(InvalidProjectNameError);
+    }
+
+    expect(fs.readdirSync(tempDir)).toEqual(["workspace"]);
+    expect(fs.readdirSync(path.join(tempDir, "workspace", "tasks"))).toEqual([]);
+  });
+
+  it("should store projects under their normalized name", () => {
+    const project = storage.createProject("My Project");
+
+    expect(project.project).toBe("my-project");
+    expect(storage.listProjects()).toEqual(["my-project"]);
+    expect(storage.getProject("MY_PROJECT")).not.toBeNull();
+  });
+
+  it("should ignore files with invalid names when listing", () => {
+    storage.createProject("good");
+    fs.writeFileSync(path.join(tempDir, "workspace", "tasks", "Bad Name.json"), "{}");
+
+    expect(storage.listProjects()).toEqual(["good"]);
+  });
+});
+
+describe("file safety", () => {
+  let tempDir: string;
+  let tasksDir: string;
+  let storage: TaskStorage;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-test-"));
+    tasksDir = path.join(tempDir, "tasks");
+    storage = new TaskStorage(tasksDir, path.join(tempDir, "plans"), { lockTimeoutMs: 200 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should leave no temp or lock files behind", () => {
+    storage.addTask("project", "Task 1");
+    storage.updateTaskStatus("project", "1", "completed");
+
+    expect(fs.readdirSync(tasksDir).sort()).toEqual(["project.events.jsonl", "project.json"]);
+  });
+
+  it("should refuse to overwrite a corrupted project and keep a backup", () => {
+    const filePath = path.join(tasksDir, "project.json");
+    fs.writeFileSync(filePath, '{"project": "project", "tasks": [');
+
+    expect(() => storage.getProject("project")).toThrow(ProjectCorruptedError);
+    expect(() => storage.addTask("project", "Task")).toThrow(ProjectCorruptedError);
+
+    expect(fs.readFileSync(filePath, "utf-8")).toBe('{"project": "project", "tasks": [');
+    const backups = fs.readdirSync(tasksDir).filter(f => f.startsWith("project.json.corrupt-"));
+    expect(backups).toHaveLength(1);
+  });
+
+  it("should skip corrupted projects in listings", () => {
+    storage.createProject("good");
+    fs.writeFileSync(path.join(tasksDir, "bad.json"), "not json");
+
+    expect(storage.getActiveProjects().map(p => p.project)).toEqual(["good"]);
+    expect(storage.tryGetProject("bad")).toBeNull();
+  });
+
+  it("should time out while another live process holds the lock", () => {
+    storage.addTask("project", "Task 1");
+    fs.writeFileSync(
+      path.join(tasksDir, "project.lock"),
+      JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() }),
+    );
+
+    expect(() => storage.addTask("project", "Task 2")).toThrow(ProjectLockError);
+    expect(storage.getProject("project")!.tasks).toHaveLength(1);
+  });
+
+  it("should break a lock left by a dead process", () => {
+    fs.writeFileSync(
+      path.join(tasksDir, "project.lock"),
+      JSON.stringify({ pid: 2 ** 30, hostname: os.hostname(), acquiredAt: new Date().toISOString() }),
+    );
+
+    storage.addTask("project", "Task 1");
+
+    expect(storage.getProject("project")!.tasks).toHaveLength(1);
+    expect(fs.existsSync(path.join(tasksDir, "project.lock"))).toBe(false);
+  });
+
+  it("should break a lock older than the stale threshold", () => {
+    const lockPath = path.join(tasksDir, "project.lock");
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, hostname: "elsewhere" }));
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, past, past);
+
+    storage.addTask("project", "Task 1");
+
+    expect(storage.getProject("project")!.tasks).toHaveLength(1);
+  });
+
+  it("should not lose updates from a second storage instance", () => {
+    const other = new TaskStorage(tasksDir, path.join(tempDir, "plans"));
+    storage.addTask("project", "Task 1");
+    other.addTask("project", "Task 2");
+    storage.addTask("project", "Task 3");
+
+    expect(storage.getProject("project")!.tasks.map(t => t.id)).toEqual(["1", "2", "3"]);
+  });
+});
+
+describe("schema migrations", () => {
+  let tempDir: string;
+  let tasksDir: string;
+  let storage: TaskStorage;
+
+  const legacyProject = {
+    project: "legacy",
+    status: "active",
+    created: "2026-01-01",
+    updated: "2026-01-02",
+    tasks: [
+      { id: 1, subject: "Done", status: "completed", blockedBy: [], blocks: [2] },
+      { id: "2", subject: "Next", status: "pending", blockedBy: [], blocks: [], notes: "" },
+    ],
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-test-"));
+    tasksDir = path.join(tempDir, "tasks");
+    storage = new TaskStorage(tasksDir, path.join(tempDir, "plans"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should write the current schemaVersion", () => {
+    storage.createProject("project");
+
+    const raw = JSON.parse(fs.readFileSync(path.join(tasksDir, "project.json"), "utf-8"));
+    expect(raw.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it("should upgrade unversioned files on read", () => {
+    const { data, fromVersion, changes } = migrateProjectData(structuredClone(legacyProject));
+
+    expect(fromVersion).toBe(0);
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.tasks[0].id).toBe("1");
+    expect(data.tasks[0].blocks).toEqual(["2"]);
+    expect(data.tasks[0].notes).toBe("");
+    expect(data.tasks[1].blockedBy).toEqual(["1"]);
+    expect(changes).toContain("task 2: restored dependency on 1");
+    expect(data.nextId).toBe(3);
+  });
+
+  it("should leave current files unchanged", () => {
+    storage.addTask("project", "Task 1");
+    const raw = JSON.parse(fs.readFileSync(path.join(tasksDir, "project.json"), "utf-8"));
+
+    expect(migrateProjectData(raw).changes).toEqual([]);
+  });
+
+  it("should reject files that fail schema validation", () => {
+    fs.writeFileSync(
+      path.join(tasksDir, "bad.json"),
+      JSON.stringify({ ...legacyProject, project: "bad", tasks: [{ id: "1", subject: "x", status: "done" }] }),
+    );
+
+    expect(() => storage.getProject("bad")).toThrow(/schema validation failed.*status/);
+  });
+
+  it("should refuse files from a newer schema version", () => {
+    fs.writeFileSync(
+      path.join(tasksDir, "future.json"),
+      JSON.stringify({ ...legacyProject, project: "future", schemaVersion: CURRENT_SCHEMA_VERSION + 1 }),
+    );
+
+    expect(() => storage.addTask("future", "x")).toThrow(ProjectCorruptedError);
+  });
+
+  it("should report without writing on dry run", () => {
+    const filePath = path.join(tasksDir, "legacy.json");
+    fs.writeFileSync(filePath, JSON.stringify(legacyProject));
+
+    const [report] = storage.migrateProjects({ dryRun: true });
+
+    expect(report.fromVersion).toBe(0);
+    expect(report.changes.length).toBeGreaterThan(0);
+    expect(JSON.parse(fs.readFileSync(filePath, "utf-8")).schemaVersion).toBeUndefined();
+  });
+
+  it("should persist migrations", () => {
+    const filePath = path.join(tasksDir, "legacy.json");
+    fs.writeFileSync(filePath, JSON.stringify(legacyProject));
+
+    storage.migrateProjects();
+
+    expect(JSON.parse(fs.readFileSync(filePath, "utf-8")).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(storage.migrateProjects()[0].changes).toEqual([]);
+  });
+
+  it("should rename legacy-named projects with their log and plan", () => {
+    fs.writeFileSync(path.join(tasksDir, "My_Project.json"), JSON.stringify({ ...legacyProject, project: "My_Project" }));
+    fs.writeFileSync(path.join(tasksDir, "My_Project.events.jsonl"), "");
+    fs.mkdirSync(path.join(tempDir, "plans"), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, "plans", "My_Project.md"), "# My_Project\n");
+
+    expect(storage.listProjects()).toEqual([]);
+    expect(storage.listLegacyProjects()).toEqual(["My_Project"]);
+    expect(storage.migrateProjects({ dryRun: true })[0]).toMatchObject({
+      project: "my-project",
+      changes: ["rename from 'My_Project'"],
+    });
+    expect(storage.listLegacyProjects()).toEqual(["My_Project"]);
+
+    const [report] = storage.migrateProjects();
+
+    expect(report.project).toBe("my-project");
+    expect(report.changes[0]).toBe("renamed from 'My_Project'");
+    expect(storage.listLegacyProjects()).toEqual([]);
+    expect(storage.getProject("My_Project")!.tasks.map(t => t.subject)).toEqual(["Done", "Next"]);
+    expect(storage.getProject("my-project")!.project).toBe("my-project");
+    expect(storage.getPlan("my-project")).toBe("# My_Project\n");
+    expect(fs.existsSync(path.join(tasksDir, "my-project.events.jsonl"))).toBe(true);
+  });
+
+  it("should not rename a legacy project over an existing one", () => {
+    storage.createProject("my-project");
+    fs.writeFileSync(path.join(tasksDir, "My_Project.json"), JSON.stringify({ ...legacyProject, project: "My_Project" }));
+
+    const reports = storage.migrateProjects();
+
+    expect(reports.find(r => r.project === "My_Project")!.error).toContain("already exists");
+    expect(storage.listLegacyProjects()).toEqual(["My_Project"]);
+  });
+});
+
+describe("plans", () => {
+  let tempDir: string;
+  let storage: TaskStorage;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-test-"));
+    storage = new TaskStorage(
+      path.join(tempDir, "tasks"),
+      path.join(tempDir, "plans")
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should create a plan template with the project", () => {
+    storage.createProject("project");
+
+    const plan = storage.getPlan("project")!;
+    expect(plan).toContain("# project");
+    expect(getPlanSection(parsePlan(plan), "Goal")).toContain("[Describe the objective]");
+  });
+
+  it("should not overwrite an existing plan", () => {
+    fs.writeFileSync(path.join(tempDir, "plans", "project.md"), "# Mine\n");
+
+    storage.createProject("project");
+
+    expect(storage.getPlan("project")).toBe("# Mine\n");
+  });
+
+  it("should replace only the given sections", () => {
+    storage.createProject("project");
+
+    storage.updatePlan("project", { goal: "Ship v2" });
+
+    const doc = parsePlan(storage.getPlan("project")!);
+    expect(getPlanSection(doc, "Goal")).toBe("Ship v2");
+    expect(getPlanSection(doc, "Notes")).toContain("[Context, decisions, blockers]");
+    expect(storage.getProject("project")!.tasks).toHaveLength(0);
+  });
+
+  it("should create tasks from new checklist items", () => {
+    const { created, completed } = storage.updatePlan("project", {
+      phases: "### Phase 1: Build\n- [ ] Write code\n- [x] Design API",
+    });
+
+    expect(created.map(t => t.subject)).toEqual(["Write code", "Design API"]);
+    expect(completed).toEqual(["2"]);
+    const data = storage.getProject("project")!;
+    expect(data.tasks[0].status).toBe("pending");
+    expect(data.tasks[1].status).toBe("completed");
+    expect(storage.getPlan("project")).toContain("- [ ] Write code <!-- task:1 -->");
+  });
+
+  it("should not duplicate tasks for linked items", () => {
+    storage.updatePlan("project", { phases: "- [ ] Write code" });
+
+    const { created } = storage.updatePlan("project", {
+      phases: getPlanSection(parsePlan(storage.getPlan("project")!), "Phases")!,
+    });
+
+    expect(created).toHaveLength(0);
+    expect(storage.getProject("project")!.tasks).toHaveLength(1);
+  });
+
+  it("should complete and reopen tasks from checkbox state", () => {
+    storage.updatePlan("project", { phases: "- [ ] Write code" });
+
+    let result = storage.updatePlan("project", { phases: "- [x] Write code <!-- task:1 -->" });
+    expect(result.completed).toEqual(["1"]);
+    expect(storage.getProject("project")!.tasks[0].status).toBe("completed");
+
+    result = storage.updatePlan("project", { phases: "- [ ] Write code <!-- task:1 -->" });
+    expect(result.reopened).toEqual(["1"]);
+    expect(storage.getProject("project")!.tasks[0].status).toBe("pending");
+  });
+
+  it("should tick the checkbox when a task completes", () => {
+    storage.updatePlan("project", { phases: "- [ ] Write code\n- [ ] Test code" });
+
+    storage.updateTaskStatus("project", "2", "completed");
+
+    const plan = storage.getPlan("project")!;
+    expect(plan).toContain("- [ ] Write code <!-- task:1 -->");
+    expect(plan).toContain("- [x] Test code <!-- task:2 -->");
+  });
+});
+
+describe("checkpoints", () => {
+  let tempDir: string;
+  let storage: TaskStorage;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-test-"));
+    storage = new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"), { session: "main" });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should record in-progress tasks and session changes in plan Notes", () => {
+    storage.addTask("project", "Setup");
+    storage.addTask("project", "Build API");
+    storage.updateTaskStatus("project", "1", "completed");
+    storage.updateTaskStatus("project", "2", "in_progress");
+    storage.addComment("project", "2", "Routes done, auth next");
+
+    const checkpoint = storage.saveCheckpoint("project", "main")!;
+
+    expect(checkpoint.body).toContain("- In progress: #2 Build API — Routes done, auth next");
+    expect(checkpoint.body).toContain("- Changed this session: #1 Setup (completed), #2 Build API (in_progress)");
+    const notes = getPlanSection(parsePlan(storage.getPlan("project")!), "Notes")!;
+    expect(notes).toContain("[Context, decisions, blockers]");
+    expect(notes).toContain(`<!-- checkpoint at:${checkpoint.at} session:main last:${checkpoint.lastChange} -->`);
+    expect(storage.getCheckpoint("project", "main")).toEqual(checkpoint);
+  });
+
+  it("should replace the previous checkpoint and only list newer changes", () => {
+    storage.addTask("project", "Task 1");
+    storage.saveCheckpoint("project", "main");
+    storage.addTask("project", "Task 2");
+
+    const checkpoint = storage.saveCheckpoint("project", "main")!;
+
+    expect(checkpoint.body).toContain("Changed this session: #2 Task 2 (pending)");
+    expect(checkpoint.body).not.toContain("#1");
+    expect(storage.getPlan("project")!.match(/<!-- checkpoint /g)).toHaveLength(1);
+  });
+
+  it("should skip projects with nothing to record", () => {
+    storage.addTask("project", "Task 1");
+
+    expect(storage.saveCheckpoint("project", "other")).toBeNull();
+    expect(storage.getCheckpoint("project", "other")).toBeNull();
+  });
+
+  it("should keep one checkpoint per session and only list that session's work", () => {
+    const other = new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"), { session: "other" });
+    storage.addTask("project", "Mine");
+    other.addTask("project", "Theirs");
+    storage.updateTaskStatus("project", "1", "in_progress");
+    other.updateTaskStatus("project", "2", "in_progress");
+
+    const mine = storage.saveCheckpoint("project", "main")!;
+    const theirs = other.saveCheckpoint("project", "other")!;
+
+    expect(mine.body).toContain("In progress: #1 Mine");
+    expect(mine.body).not.toContain("Theirs");
+    expect(theirs.body).toContain("In progress: #2 Theirs");
+    expect(theirs.body).not.toContain("Mine");
+    expect(storage.getCheckpoint("project", "main")).toEqual(mine);
+    expect(storage.getCheckpoint("project", "other")).toEqual(theirs);
+    expect(storage.getPlan("project")!.match(/<!-- checkpoint /g)).toHaveLength(2);
+  });
+
+  it("should keep checkpoints when Notes is replaced", () => {
+    storage.addTask("project", "Task 1");
+    const checkpoint = storage.saveCheckpoint("project", "main")!;
+
+    storage.updatePlan("project", { notes: "Switched to Postgres" });
+
+    const notes = getPlanSection(parsePlan(storage.getPlan("project")!), "Notes")!;
+    expect(notes).toMatch(/^Switched to Postgres\n\n<!-- checkpoint /);
+    expect(notes).not.toContain("[Context, decisions, blockers]");
+    expect(storage.getCheckpoint("project", "main")).toEqual(checkpoint);
+  });
+});
+
+describe("stale tasks", () => {
+  const now = Date.parse("2026-03-31T12:00:00.000Z");
+  const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+  const task = (id: string, status: Task["status"], days: number, extra: Partial<Task> = {}): Task => ({
+    id, subject: `Task ${id}`, status, blockedBy: [], blocks: [], notes: "", updatedAt: daysAgo(days), ...extra,
+  });
+  const project = (tasks: Task[]): TaskProject => ({
+    project: "api", status: "active", created: daysAgo(100), updated: daysAgo(0), tasks,
+  });
+
+  it("should flag tasks by status and age, oldest first", () => {
+    const stale = findStaleTasks([project([
+      task("1", "in_progress", 4),
+      task("2", "in_progress", 1),
+      task("3", "blocked", 8),
+      task("4", "pending", 45),
+      task("5", "completed", 90),
+    ])], {}, new Map(), now);
+
+    expect(stale.map(s => [s.task.id, s.kind, s.days])).toEqual([["4", "abandoned", 45], ["3", "stuck", 8], ["1", "stale", 4]]);
+  });
+
+  it("should report blocked tasks waiting on stalled blockers", () => {
+    const external = new Map([["web#9", task("9", "in_progress", 10)]]);
+    const stale = findStaleTasks([project([
+      task("1", "in_progress", 5, { blocks: ["2"] }),
+      task("2", "blocked", 1, { blockedBy: ["1", "web#9"] }),
+      task("3", "blocked", 1, { blockedBy: ["2"] }),
+    ])], {}, external, now);
+
+    const waiting = stale.find(s => s.task.id === "2")!;
+    expect(waiting).toMatchObject({ kind: "waiting", stalledBlockers: ["1", "web#9"] });
+    expect(stale.some(s => s.task.id === "3")).toBe(false);
+  });
+
+  it("should honor configured thresholds", () => {
+    const tasks = [task("1", "in_progress", 4)];
+
+    expect(findStaleTasks([project(tasks)], { inProgressDays: 7 }, new Map(), now)).toEqual([]);
+  });
+});
+
+describe("project stats", () => {
+  const now = Date.parse("2026-03-31T12:00:00.000Z");
+  const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+  const task = (id: string, status: Task["status"], extra: Partial<Task> = {}): Task => ({
+    id, subject: `Task ${id}`, status, blockedBy: [], blocks: [], notes: "", createdAt: daysAgo(10), ...extra,
+  });
+  const project = (tasks: Task[]): TaskProject => ({
+    project: "api", status: "active", created: daysAgo(10), updated: daysAgo(0), tasks,
+  });
+
+  it("should find the longest open chain, weighted by estimates", () => {
+    const data = project([
+      task("1", "completed", { blocks: ["2"], completedAt: daysAgo(1) }),
+      task("2", "pending", { blockedBy: ["1"], blocks: ["3", "4"], estimate: 2 }),
+      task("3", "blocked", { blockedBy: ["2"], blocks: ["5"], estimate: 1 }),
+      task("4", "blocked", { blockedBy: ["2"], blocks: ["5"], estimate: 5 }),
+      task("5", "blocked", { blockedBy: ["3", "4"] }),
+    ]);
+
+    const { criticalPath, counts } = computeProjectStats(data, [], { now });
+
+    // #5 has no estimate, so it counts as the average of the others
+    expect(criticalPath).toEqual({ taskIds: ["2", "4", "5"], length: 2 + 5 + 8 / 3, unit: "hours" });
+    expect(counts).toMatchObject({ total: 5, completed: 1, pending: 1, ready: 1, blocked: 3 });
+  });
+
+  it("should count tasks and include subtasks when there are no estimates", () => {
+    const data = project([
+      task("1", "pending"),
+      task("2", "pending", { parentId: "1" }),
+      task("3", "pending", { parentId: "1", blocks: ["2"] }),
+      task("4", "pending"),
+    ]);
+    data.tasks[1].blockedBy = ["3"];
+
+    expect(computeProjectStats(data, [], { now }).criticalPath).toEqual({ taskIds: ["3", "2", "1"], length: 2, unit: "tasks" });
+  });
+
+  it("should compute throughput, lead and cycle time, and burndown", () => {
+    const data = project([
+      task("1", "completed", { createdAt: daysAgo(5), completedAt: daysAgo(1) }),
+      task("2", "completed", { createdAt: daysAgo(4), completedAt: daysAgo(2) }),
+      task("3", "completed", { createdAt: daysAgo(30), completedAt: daysAgo(20) }),
+      task("4", "in_progress", { createdAt: daysAgo(3) }),
+    ]);
+    const events = [{
+      change: "c1", at: daysAgo(3), taskId: "1",
+      before: { ...data.tasks[0], status: "pending" as const }, after: { ...data.tasks[0], status: "in_progress" as const },
+    }];
+
+    const stats = computeProjectStats(data, events, { days: 7, now });
+
+    expect(stats.throughput).toEqual({ days: 7, completed: 2, perWeek: 2 });
+    expect(stats.leadTime).toEqual({ average: 3, median: 3, count: 2 });
+    expect(stats.cycleTime).toEqual({ average: 2, median: 2, count: 1 });
+    expect(stats.burndown.map(d => d.remaining)).toEqual([0, 1, 2, 3, 2, 1, 1]);
+    expect(stats.burndown[6].date).toBe("2026-03-31");
+  });
+
+  it("should reject a window that isn't a whole number of days", () => {
+    const data = project([task("1", "pending")]);
+
+    for (const days of [0, -3, 1.5, NaN]) {
+      expect(() => computeProjectStats(data, [], { days, now })).toThrow("Invalid days");
+    }
+  });
+});
+
+describe("external edit merging", () => {
+  it("should merge plans section by section", () => {
+    const base = "# p\n\n## Goal\nShip it\n\n## Notes\nNone\n";
+    const ours = "# p\n\n## Goal\nShip it\n\n## Notes\nCheckpoint\n";
+
+    expect(mergePlans(base, ours, base.replace("Ship it", "Ship it soon")).merged)
+      .toBe("# p\n\n## Goal\nShip it soon\n\n## Notes\nCheckpoint\n");
+    expect(mergePlans(base, ours, base.replace("None", "Edited")).conflicts).toEqual(["plan section notes"]);
+  });
+
+  it("should report tasks deleted on one side and changed on the other", () => {
+    const task: Task = { id: "1", subject: "Task", status: "pending", blockedBy: [], blocks: [], notes: "" };
+    const base: TaskProject = { project: "p", status: "active", created: "", updated: "", nextId: 2, tasks: [task] };
+
+    const { conflicts } = mergeProjects(base, { ...base, tasks: [{ ...task, status: "completed" }] }, { ...base, tasks: [] });
+
+    expect(conflicts).toEqual(["#1 deleted in the file"]);
+  });
+
+  it("should report each changed file once", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-watch-"));
+    const changes: string[] = [];
+    const stop = watchProjectFiles({ tasksDir: dir, plansDir: dir }, (project, file) => changes.push(`${project} ${file}`));
+    try {
+      fs.writeFileSync(path.join(dir, "web.json"), "{}");
+      fs.writeFileSync(path.join(dir, "web.md"), "# web\n");
+      fs.writeFileSync(path.join(dir, "web.events.jsonl"), "");
+      await new Promise(resolve => setTimeout(resolve, 400));
+      // Same content again
+      fs.writeFileSync(path.join(dir, "web.json"), "{}");
+      await new Promise(resolve => setTimeout(resolve, 400));
+
+      expect(changes.sort()).toEqual(["web plan", "web tasks"]);
+    } finally {
+      stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should ignore the plugin's own writes and files rewritten unchanged", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-watch-"));
+    const ownWrites = new Map<string, string>();
+    const storage = new TaskStorage(dir, dir, {
+      onWrite: (project, file, content) => ownWrites.set(`${file}:${project}`, contentDigest(content)),
+    });
+    storage.addTask("a", "Existing");
+    const changes: string[] = [];
+    const stop = watchProjectFiles({ tasksDir: dir, plansDir: dir }, (project, file) => changes.push(`${project}:${file}`), ownWrites);
+    try {
+      fs.writeFileSync(path.join(dir, "a.md"), fs.readFileSync(path.join(dir, "a.md"), "utf-8"));
+      storage.addTask("a", "From the plugin");
+      await new Promise(resolve => setTimeout(resolve, 400));
+      expect(changes).toEqual([]);
+
+      fs.appendFileSync(path.join(dir, "a.md"), "\nEdited by hand\n");
+      await new Promise(resolve => setTimeout(resolve, 400));
+      expect(changes).toEqual(["a:plan"]);
+    } finally {
+      stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("search", () => {
+  let tempDir: string;
+  let storage: TaskStorage;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-test-"));
+    storage = new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"));
+    storage.addTask("api", "Add OAuth login", { tags: ["auth"] });
+    storage.addTask("api", "Write docs");
+    storage.updateTaskNotes("api", "2", "Document the oauth callback flow");
+    storage.addTask("web", "Login page", { tags: ["ui"] });
+    storage.addComment("web", "1", "Blocked on OAuth scopes from the api team");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should match case-insensitively across projects, subject matches first", () => {
+    const hits = storage.search("oauth");
+
+    // Equal scores go to the most recently updated task
+    expect(hits.map(h => `${h.project}#${h.task?.id}:${h.field}`)).toEqual([
+      "api#1:subject",
+      "web#1:comment",
+      "api#2:notes",
+    ]);
+    expect(hits[0].snippet).toBe("Add **OAuth** login");
+  });
+
+  it("should require every term", () => {
+    expect(storage.search("oauth login").map(h => `${h.project}#${h.task!.id}`)).toEqual(["api#1", "web#1"]);
+    expect(storage.search("oauth missing")).toEqual([]);
+  });
+
+  it("should filter by status, tags and project status", () => {
+    storage.updateTaskStatus("api", "2", "completed");
+    storage.updateProjectStatus("web", "paused");
+
+    expect(storage.search("oauth", { status: "completed" }).map(h => h.task!.id)).toEqual(["2"]);
+    expect(storage.search("oauth", { tags: ["auth"] }).map(h => h.task!.subject)).toEqual(["Add OAuth login"]);
+    expect(storage.search("oauth", { tags: ["Auth"] }).map(h => h.task!.subject)).toEqual(["Add OAuth login"]);
+    expect(storage.search("oauth", { projectStatus: "active" }).every(h => h.project === "api")).toBe(true);
+  });
+
+  it("should search plan text outside linked checklist items", () => {
+    storage.updatePlan("api", { goal: "Ship single sign-on with OAuth providers" });
+
+    const planHit = storage.search("providers").find(h => h.field === "plan")!;
+
+    expect(planHit.project).toBe("api");
+    expect(planHit.snippet).toBe("Ship single sign-on with OAuth **providers**");
+  });
+
+  it("should trim long snippets around the match", () => {
+    storage.updateTaskNotes("api", "2", `${"x ".repeat(100)}needle ${"y ".repeat(100)}`);
+
+    const [hit] = storage.search("needle");
+
+    expect(hit.snippet.startsWith("…")).toBe(true);
+    expect(hit.snippet.endsWith("…")).toBe(true);
+    expect(hit.snippet).toContain("**needle**");
+  });
+});
+
+describe("sqlite backend", () => {
+  let tempDir: string;
+  let backend: SqliteBackend;
+  let storage: TaskStorage;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-test-"));
+    backend = new SqliteBackend(path.join(tempDir, "tasks", "tasks.db"));
+    storage = new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"), { backend });
+  });
+
+  afterEach(() => {
+    backend.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should store projects in the database instead of JSON files", () => {
+    storage.addTask("project", "Task 1");
+
+    expect(storage.getProject("project")!.tasks[0].subject).toBe("Task 1");
+    expect(fs.readdirSync(path.join(tempDir, "tasks")).filter(f => f.endsWith(".json"))).toEqual([]);
+  });
+
+  it("should cascade unblocks and keep the activity log", () => {
+    storage.addTask("project", "Blocker");
+    storage.addTask("project", "Task", { blockedBy: ["1"] });
+
+    const { unblocked } = storage.updateTaskStatus("project", "1", "completed");
+    expect(unblocked).toEqual(["2"]);
+
+    storage.undo("project");
+    expect(storage.getProject("project")!.tasks.map(t => t.status)).toEqual(["pending", "blocked"]);
+    expect(storage.getHistory("project").filter(e => e.undoes)).toHaveLength(2);
+  });
+
+  it("should delete archived projects from the database", () => {
+    storage.addTask("project", "Task 1");
+    storage.updateProjectStatus("project", "completed");
+
+    storage.archiveProject("project");
+
+    expect(storage.listProjects()).toEqual([]);
+    expect(backend.readEvents("project")).toEqual([]);
+    expect(storage.restoreProject("project").tasks).toHaveLength(1);
+  });
+
+  it("should rename legacy-named projects", () => {
+    storage.addTask("project", "Task 1");
+    const legacy = { ...storage.getProject("project")!, project: "My_Project" };
+    backend.writeProject(legacy);
+
+    expect(storage.listLegacyProjects()).toEqual(["My_Project"]);
+    storage.migrateProjects();
+
+    expect(storage.listProjects()).toEqual(["my-project", "project"]);
+    expect(storage.getProject("my-project")!.project).toBe("my-project");
+  });
+
+  it("should list active projects without reading paused ones", () => {
+    storage.createProject("alpha");
+    storage.createProject("beta");
+    storage.updateProjectStatus("beta", "paused");
+
+    expect(storage.listProjects()).toEqual(["alpha", "beta"]);
+    expect(storage.getActiveProjects().map(p => p.project)).toEqual(["alpha"]);
+  });
+
+  it("should roll back a change that fails part way", () => {
+    storage.addTask("project", "Task 1");
+
+    expect(() => storage.withProjectLock("project", () => {
+      storage.addTask("project", "Task 2");
+      throw new Error("boom");
+    })).toThrow("boom");
+
+    expect(storage.getProject("project")!.tasks).toHaveLength(1);
+  });
+
+  it("should time out while another connection holds the lock", () => {
+    const other = new SqliteBackend(path.join(tempDir, "tasks", "tasks.db"), { lockTimeoutMs: 100 });
+    storage.createProject("project");
+
+    try {
+      storage.withProjectLock("project", () => {
+        expect(() => other.withLock("project", () => undefined)).toThrow(ProjectLockError);
+      });
+    } finally {
+      other.close();
+    }
+  });
+});
+
+describe("export and import", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should round-trip projects, history and plans between backends", () => {
+    const json = new TaskStorage(path.join(tempDir, "json"), path.join(tempDir, "plans-json"), { session: "main" });
+    json.addTask("api", "Migrate");
+    json.addTask("api", "Deploy", { blockedBy: ["1"], priority: "high" });
+    json.addComment("api", "2", "Waiting on review");
+    json.updateProjectStatus("api", "paused");
+    json.createProject("web");
+    const exported = json.exportProjects();
+
+    const backend = new SqliteBackend(path.join(tempDir, "tasks.db"));
+    try {
+      const sqlite = new TaskStorage(path.join(tempDir, "unused"), path.join(tempDir, "plans-sqlite"), { backend });
+      expect(sqlite.importProjects(JSON.parse(JSON.stringify(exported)))).toEqual([
+        { project: "api", imported: true },
+        { project: "web", imported: true },
+      ]);
+
+      const reexported = sqlite.exportProjects();
+      expect(reexported.projects).toEqual(exported.projects);
+    } finally {
+      backend.close();
+    }
+  });
+
+  it("should skip existing projects unless overwriting", () => {
+    const storage = new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"));
+    storage.addTask("api", "Original");
+    const bundle = storage.exportProjects();
+    bundle.projects[0].data.tasks[0].subject = "Imported";
+
+    expect(storage.importProjects(bundle)).toEqual([{ project: "api", imported: false, reason: "already exists" }]);
+    expect(storage.getProject("api")!.tasks[0].subject).toBe("Original");
+
+    storage.importProjects(bundle, { overwrite: true });
+    expect(storage.getProject("api")!.tasks[0].subject).toBe("Imported");
+  });
+
+  it("should reject files that aren't exports and invalid projects", () => {
+    const storage = new TaskStorage(path.join(tempDir, "tasks"), path.join(tempDir, "plans"));
+
+    expect(() => storage.importProjects({ projects: [] })).toThrow("Not a tasks export");
+    const [report] = storage.importProjects({
+      format: "openclaw-tasks-export",
+      projects: [{ data: { project: "bad", tasks: [{ id: "1" }] }, events: [], plan: null }],
+    });
+    expect(report.imported).toBe(false);
+    expect(report.reason).toContain("schema validation failed");
+  });
+});
+
+describe("formatting helpers", () => {
+  it("placeholder for formatting tests", () => {
+    // formatTaskList and formatActiveTasksSummary are internal
+    // Full integration tests would cover these via plugin tools
+    expect(true).toBe(true);
+  });
+
+  describe("active tasks summary", () => {
+    const makeProject = (name: string, updated: string, tasks: Partial<Task>[] = []): TaskProject => ({
+      project: name,
+      status: "active",
+      created: "2026-01-01T00:00:00.000Z",
+      updated,
+      tasks: tasks.map((t, i) => ({
+        id: String(i + 1),
+        subject: `Task ${i + 1}`,
+        status: "pending",
+        blockedBy: [],
+        blocks: [],
+        notes: "",
+        ...t,
+      })),
+    });
+
+    const projects = [
+      makeProject("alpha", "2026-01-01T00:00:00.000Z"),
+      makeProject("beta", "2026-01-03T00:00:00.000Z"),
+      makeProject("gamma", "2026-01-02T00:00:00.000Z"),
+    ];
+    const headings = (summary: string) => summary.match(/^## \S+/gm);
+
+    it("should order pinned projects first, then by most recent update", () => {
+      expect(headings(formatActiveTasksSummary(projects))).toEqual(["## beta", "## gamma", "## alpha"]);
+      expect(headings(formatActiveTasksSummary(projects, { pinned: ["alpha"] })))
+        .toEqual(["## alpha", "## beta", "## gamma"]);
+    });
+
+    it("should apply include and exclude globs", () => {
+      expect(headings(formatActiveTasksSummary(projects, { include: ["*a"], exclude: ["gam*"] })))
+        .toEqual(["## beta", "## alpha"]);
+      expect(formatActiveTasksSummary(projects, { exclude: ["*"] })).toBe("");
+    });
+
+    it("should stay within the project and character budgets", () => {
+      const limited = formatActiveTasksSummary(projects, { maxProjects: 1 });
+      expect(headings(limited)).toEqual(["## beta"]);
+      expect(limited).toContain("(2 more active project(s) not shown");
+
+      const full = formatActiveTasksSummary(projects);
+      const budgeted = formatActiveTasksSummary(projects, { maxChars: full.length - 1 });
+      expect(budgeted.length).toBeLessThan(full.length);
+      expect(headings(budgeted)!.length).toBeLessThan(3);
+      expect(budgeted).toContain("more active project(s) not shown");
+
+      const noneFit = formatActiveTasksSummary(projects, { maxChars: 150 });
+      expect(noneFit.length).toBeLessThanOrEqual(150);
+      expect(noneFit).toContain("(3 more active project(s) not shown");
+      expect(formatActiveTasksSummary(projects, { maxChars: 40 })).toBe("");
+    });
+
+    it("should show more for higher detail levels", () => {
+      const project = makeProject("api", "2026-01-01T00:00:00.000Z", [
+        { status: "in_progress" },
+        { status: "pending", blocks: ["3"] },
+        { status: "blocked", blockedBy: ["2"] },
+      ]);
+
+      const counts = formatActiveTasksSummary([project], { detail: "counts" });
+      expect(counts).toContain("1 in progress, 1 pending, 1 blocked, 0/3 completed");
+      expect(counts).not.toContain("#1");
+
+      const ready = formatActiveTasksSummary([project]);
+      expect(ready).toContain("In Progress:\n  - #1: Task 1");
+      expect(ready).toContain("Next Up:\n  - #2: Task 2");
+      expect(ready).not.toContain("Blocked:");
+
+      const blockers = formatActiveTasksSummary([project], { detail: "blockers" });
+      expect(blockers).toContain("Blocked:\n  - #3: Task 3 (waiting on #2)");
+    });
+  });
+
+  describe("project export", () => {
+    const project: TaskProject = {
+      project: "web",
+      status: "active",
+      created: "2026-01-01T00:00:00.000Z",
+      updated: "2026-01-02T00:00:00.000Z",
+      nextId: 4,
+      tasks: [
+        { id: "1", subject: "Design", status: "completed", blockedBy: [], blocks: ["2"], notes: "" },
+        { id: "2", subject: "Build \"v2\"", status: "blocked", blockedBy: ["1", "api#4"], blocks: [], notes: "a, b", tags: ["ui", "web"] },
+        { id: "3", subject: "Step", status: "in_progress", blockedBy: [], blocks: [], notes: "", parentId: "2" },
+      ],
+    };
+    const external = new Map([["api#4", { id: "4", subject: "Endpoint", status: "pending", blockedBy: [], blocks: ["web#2"], notes: "" } as Task]]);
+
+    it("should render a nested markdown checklist", () => {
+      expect(formatProjectExport(project, "md", external)).toBe([
+        "## web",
+        "",
+        "- [x] #1: Design",
+        "- [ ] #2: Build \"v2\" {#ui #web} _(blocked by api#4)_",
+        "  - [ ] #3: Step _(in progress)_",
+      ].join("\n"));
+    });
+
+    it("should render a mermaid graph colored by status", () => {
+      const graph = formatProjectExport(project, "mermaid", external);
+
+      expect(graph.split("\n")[0]).toBe("graph TD");
+      expect(graph).toContain('t2["#2: Build #quot;v2#quot;"]:::blocked');
+      expect(graph).toContain('x_api_4["api#4: Endpoint"]:::pending');
+      expect(graph).toContain("t1 --> t2");
+      expect(graph).toContain("x_api_4 --> t2");
+      expect(graph).toContain("classDef completed");
+    });
+
+    it("should quote csv fields", () => {
+      const [header, , row] = formatProjectExport(project, "csv").split("\r\n");
+
+      expect(header.startsWith("id,subject,status,parentId,blockedBy,blocks")).toBe(true);
+      expect(row).toBe('2,"Build ""v2""",blocked,,1 api#4,,,ui;web,,,,,,,"a, b"');
+    });
+
+    it("should fill every field in json", () => {
+      const json = JSON.parse(formatProjectExport(project, "json"));
+
+      expect(json.tasks[0]).toMatchObject({ id: "1", priority: "normal", tags: [], assignee: null, estimate: null, claim: null, archivedAt: null });
+      expect(Object.keys(json.tasks[0])).toEqual(Object.keys(json.tasks[2]));
+    });
+  });
+
+  describe("board", () => {
+    const project: TaskProject = {
+      project: "web",
+      status: "active",
+      created: "2026-01-01T00:00:00.000Z",
+      updated: "2026-01-02T00:00:00.000Z",
+      nextId: 4,
+      tasks: [
+        { id: "1", subject: "Design", status: "completed", blockedBy: [], blocks: [], notes: "" },
+        { id: "2", subject: "Build the page", status: "pending", blockedBy: [], blocks: [], notes: "" },
+        { id: "3", subject: "Write copy", status: "pending", blockedBy: [], blocks: [], notes: "" },
+      ],
+    };
+    const columns = [[project.tasks[1], project.tasks[2]], [], [], [project.tasks[0]]];
+
+    it("should move the cursor and turn shifted keys into moves", () => {
+      expect(handleBoardKey({ column: 0, row: 0 }, "j", columns).state).toEqual({ column: 0, row: 1 });
+      expect(handleBoardKey({ column: 0, row: 1 }, "\x1b[B", columns).state).toEqual({ column: 0, row: 1 });
+      // Empty columns keep the cursor at the top
+      expect(handleBoardKey({ column: 0, row: 1, message: "x" }, "l", columns).state).toEqual({ column: 1, row: 0 });
+
+      expect(handleBoardKey({ column: 0, row: 1 }, "L", columns).action).toEqual({ kind: "move", taskId: "3", status: "in_progress" });
+      expect(handleBoardKey({ column: 0, row: 0 }, "4", columns).action).toEqual({ kind: "move", taskId: "2", status: "completed" });
+      expect(handleBoardKey({ column: 1, row: 0 }, "H", columns).action).toBeUndefined();
+      expect(handleBoardKey({ column: 0, row: 0 }, "q", columns).action).toEqual({ kind: "quit" });
+    });
+
+    it("should render one column per status and highlight the selection", () => {
+      const lines = renderBoard(project, { column: 0, row: 1 }, { width: 80, height: 24 }).split("\n");
+
+      expect(lines[0]).toBe("web [active]");
+      expect(lines[1]).toMatch(/^PENDING \(2\) +│ IN PROGRESS \(0\) +│ BLOCKED \(0\) +│ COMPLETED \(1\)/);
+      expect(lines[3]).toContain("#2 Build the page");
+      expect(lines[3]).toContain("#1 Design");
+      expect(lines[4]).toContain("\x1b[7m#3 Write copy");
+      expect(lines.at(-1)).toContain("q quit");
+    });
+
+    it("should scroll the selected column and truncate long subjects", () => {
+      const board = renderBoard(project, { column: 0, row: 1, message: "Moved" }, { width: 40, height: 6 });
+      const lines = board.split("\n");
+
+      expect(lines).toHaveLength(6);
+      expect(lines[3]).toContain("#3 Write co…");
+      expect(lines.at(-1)).toBe("Moved");
+    });
   });
 });
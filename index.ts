@@ -7,8 +7,11 @@
 
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import { Type } from "@sinclair/typebox";
-import { randomUUID } from "node:crypto";
+import { Value } from "@sinclair/typebox/value";
+import { createHash, randomUUID } from "node:crypto";
 import fs from "node:fs";
+import { createRequire } from "node:module";
+import os from "node:os";
 import path from "node:path";
 
 // ============================================================================
@@ -17,6 +20,8 @@ import path from "node:path";
 
 type TaskStatus = "pending" | "in_progress" | "completed" | "blocked";
 
+type TaskPriority = "low" | "normal" | "high" | "urgent";
+
 type Task = {
   id: string;
   subject: string;
@@ -24,256 +29,5149 @@ type Task = {
   blockedBy: string[];
   blocks: string[];
   notes: string;
+  parentId?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  assignee?: string;
+  due?: string;        // YYYY-MM-DD
+  estimate?: number;   // hours
+  createdAt?: string;  // ISO timestamps
+  updatedAt?: string;
+  completedAt?: string;
+  comments?: TaskComment[];
+  claim?: TaskClaim;
+  archivedAt?: string; // Hidden from task listings; see archiveTasks
+};
+
+type TaskComment = {
+  at: string;
+  text: string;
+  session?: string;
+};
+
+// Who is working on a task. Others can't change it until `expires`.
+type TaskClaim = {
+  owner: string;     // session or agent ID
+  at: string;        // ISO timestamps
+  expires: string;
+};
+
+// Settable task attributes; null clears a field
+type TaskFields = {
+  priority?: TaskPriority | null;
+  tags?: string[] | null;
+  assignee?: string | null;
+  due?: string | null;
+  estimate?: number | null;
+};
+
+// Everything task_update and `tasks update` can change in one call
+type TaskUpdate = TaskFields & {
+  status?: TaskStatus;
+  subject?: string;
+  notes?: string;      // Replaces the notes
+  comment?: string;    // Appended as a timestamped comment
+  blockedBy?: string[];
+  force?: boolean;     // Override another session's claim
+};
+
+type TaskFilter = {
+  status?: string;
+  priority?: TaskPriority;
+  tag?: string;
+  assignee?: string;
+  dueBefore?: string;
 };
 
 type TaskProject = {
+  schemaVersion?: number;
   project: string;
   status: "active" | "paused" | "completed";
   created: string;
   updated: string;
+  nextId: number; // Next task ID to hand out; IDs are never reused
   tasks: Task[];
 };
 
+// How much of each project the auto-inject summary shows, from least to most
+type InjectDetail = "counts" | "ready" | "blockers";
+
+type InjectOptions = {
+  maxProjects: number;
+  maxChars: number;
+  pinned: string[];    // Shown first, regardless of include/exclude
+  include: string[];   // Globs; empty means every active project
+  exclude: string[];
+  detail: InjectDetail;
+};
+
+// Days without an update before a task counts as stale, by status
+type StaleOptions = {
+  inProgressDays: number;
+  blockedDays: number;
+  pendingDays: number;
+  inject: boolean;   // Remind the agent at session start
+};
+
 type TasksConfig = {
   tasksDir: string;
   plansDir: string;
   autoInject: boolean;
   autoSaveOnCompaction: boolean;
+  inject: Partial<InjectOptions>;
+  storage: StorageBackendKind;
+  databasePath: string;   // sqlite only
+  templatesDir: string;
+  leaseMinutes: number;
+  stale: Partial<StaleOptions>;
+  watch: boolean;         // Reconcile hand edits to task and plan files
+  archiveDir: string;
+  autoArchiveDays: number; // Archive completed projects idle this long; 0 = never
 };
 
 // ============================================================================
-// Storage Layer
+// Errors
 // ============================================================================
 
-class TaskStorage {
+class InvalidProjectNameError extends Error {
+  constructor(
+    readonly projectName: string,
+    readonly reason: string,
+  ) {
+    super(`Invalid project name '${projectName}': ${reason}`);
+    this.name = "InvalidProjectNameError";
+  }
+}
+
+class ProjectCorruptedError extends Error {
+  constructor(
+    readonly project: string,
+    readonly backupPath: string,
+    cause: unknown,
+  ) {
+    super(
+      `Project '${project}' is corrupted and was not modified (backup: ${backupPath}): ` +
+      (cause instanceof Error ? cause.message : String(cause))
+    );
+    this.name = "ProjectCorruptedError";
+  }
+}
+
+class ArchiveCorruptedError extends Error {
+  constructor(
+    readonly project: string,
+    readonly archivePath: string,
+    cause: unknown,
+  ) {
+    super(
+      `Archive of project '${project}' is corrupted (${archivePath}): ` +
+      (cause instanceof Error ? cause.message : String(cause))
+    );
+    this.name = "ArchiveCorruptedError";
+  }
+}
+
+class ProjectLockError extends Error {
+  constructor(
+    readonly project: string,
+    readonly lockPath: string,
+  ) {
+    super(`Timed out waiting for lock on project '${project}' (${lockPath})`);
+    this.name = "ProjectLockError";
+  }
+}
+
+class ProjectConflictError extends Error {
+  constructor(
+    readonly project: string,
+    readonly conflicts: string[],
+  ) {
+    super(
+      `Project '${project}' was changed outside the plugin in ways that conflict with this update, ` +
+      `so nothing was saved (${conflicts.join(", ")}). Read it again and redo the change.`
+    );
+    this.name = "ProjectConflictError";
+  }
+}
+
+class TaskClaimedError extends Error {
+  constructor(
+    readonly project: string,
+    readonly taskId: string,
+    readonly claim: TaskClaim,
+  ) {
+    super(`Task #${taskId} in project '${project}' is claimed by ${claim.owner} until ${claim.expires}`);
+    this.name = "TaskClaimedError";
+  }
+}
+
+class DependencyError extends Error {
+  constructor(
+    message: string,
+    readonly cycle?: string[],
+  ) {
+    super(message);
+    this.name = "DependencyError";
+  }
+}
+
+// ============================================================================
+// File Helpers
+// ============================================================================
+
+/**
+ * Write via a temp file in the same directory and rename over the target, so
+ * readers see either the old or the new content, never a partial write.
+ */
+function writeFileAtomic(filePath: string, content: string): void {
+  const tmpPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`,
+  );
+  try {
+    fs.writeFileSync(tmpPath, content);
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    fs.rmSync(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// ============================================================================
+// Project Names
+// ============================================================================
+
+const PROJECT_NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_PROJECT_NAME_LENGTH = 64;
+
+// Device names that cannot be used as file names on Windows
+const RESERVED_PROJECT_NAMES = new Set([
+  "con", "prn", "aux", "nul",
+  ...Array.from({ length: 9 }, (_, i) => `com${i + 1}`),
+  ...Array.from({ length: 9 }, (_, i) => `lpt${i + 1}`),
+]);
+
+/**
+ * Canonical form of a project name: lowercase, with whitespace and
+ * underscores turned into single hyphens. Anything else that isn't
+ * kebab-case (dots, slashes) is left in place for validation to reject.
+ */
+function normalizeProjectName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Normalize a project name and check it is a safe kebab-case slug.
+ * Returns the normalized name or throws InvalidProjectNameError.
+ */
+function validateProjectName(name: string): string {
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new InvalidProjectNameError(String(name ?? ""), "name must not be empty");
+  }
+
+  const normalized = normalizeProjectName(name);
+  if (/[\\/]|\.\./.test(normalized)) {
+    throw new InvalidProjectNameError(name, "name must not contain path separators or '..'");
+  }
+  if (normalized.length > MAX_PROJECT_NAME_LENGTH) {
+    throw new InvalidProjectNameError(name, `name must be at most ${MAX_PROJECT_NAME_LENGTH} characters`);
+  }
+  if (!PROJECT_NAME_PATTERN.test(normalized)) {
+    throw new InvalidProjectNameError(name, "name must be kebab-case (a-z, 0-9 and single hyphens)");
+  }
+  if (RESERVED_PROJECT_NAMES.has(normalized)) {
+    throw new InvalidProjectNameError(name, "name is reserved");
+  }
+  return normalized;
+}
+
+function isValidProjectName(name: string): boolean {
+  try {
+    return validateProjectName(name) === name;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve `{dir}/{project}{ext}`, refusing anything that would land
+ * outside `dir` even if the name somehow passed validation.
+ */
+function containedPath(dir: string, project: string, ext: string): string {
+  const name = validateProjectName(project);
+  const root = path.resolve(dir);
+  const filePath = path.resolve(root, `${name}${ext}`);
+  if (path.dirname(filePath) !== root) {
+    throw new InvalidProjectNameError(project, "name resolves outside the workspace");
+  }
+  return filePath;
+}
+
+// ============================================================================
+// Schema & Migrations
+// ============================================================================
+
+const CURRENT_SCHEMA_VERSION = 2;
+
+const TaskSchema = Type.Object({
+  id: Type.String({ minLength: 1 }),
+  subject: Type.String(),
+  status: Type.Union([
+    Type.Literal("pending"),
+    Type.Literal("in_progress"),
+    Type.Literal("completed"),
+    Type.Literal("blocked"),
+  ]),
+  blockedBy: Type.Array(Type.String()),
+  blocks: Type.Array(Type.String()),
+  notes: Type.String(),
+  parentId: Type.Optional(Type.String()),
+  priority: Type.Optional(Type.Union([
+    Type.Literal("low"),
+    Type.Literal("normal"),
+    Type.Literal("high"),
+    Type.Literal("urgent"),
+  ])),
+  tags: Type.Optional(Type.Array(Type.String())),
+  assignee: Type.Optional(Type.String()),
+  due: Type.Optional(Type.String()),
+  estimate: Type.Optional(Type.Number({ minimum: 0 })),
+  createdAt: Type.Optional(Type.String()),
+  updatedAt: Type.Optional(Type.String()),
+  completedAt: Type.Optional(Type.String()),
+  comments: Type.Optional(Type.Array(Type.Object({
+    at: Type.String(),
+    text: Type.String(),
+    session: Type.Optional(Type.String()),
+  }))),
+  claim: Type.Optional(Type.Object({
+    owner: Type.String(),
+    at: Type.String(),
+    expires: Type.String(),
+  })),
+  archivedAt: Type.Optional(Type.String()),
+});
+
+const TaskProjectSchema = Type.Object({
+  schemaVersion: Type.Literal(CURRENT_SCHEMA_VERSION),
+  project: Type.String(),
+  status: Type.Union([
+    Type.Literal("active"),
+    Type.Literal("paused"),
+    Type.Literal("completed"),
+  ]),
+  created: Type.String(),
+  updated: Type.String(),
+  nextId: Type.Integer({ minimum: 1 }),
+  tasks: Type.Array(TaskSchema),
+});
+
+type RawProject = Record<string, unknown> & { tasks?: unknown };
+type RawTask = Record<string, unknown>;
+
+type Migration = {
+  // Version this migration produces; it runs on files below it
+  version: number;
+  description: string;
+  migrate(raw: RawProject, changes: string[]): void;
+};
+
+/**
+ * Ordered chain of upgrades. Each step records what it changed so
+ * `tasks migrate --dry-run` can report it.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Add schemaVersion, fill missing fields, restore dropped dependencies",
+    migrate(raw, changes) {
+      if (typeof raw.status !== "string") {
+        raw.status = "active";
+        changes.push("set missing project status to 'active'");
+      }
+      for (const key of ["created", "updated"]) {
+        if (typeof raw[key] !== "string") {
+          raw[key] = new Date().toISOString();
+          changes.push(`set missing project '${key}'`);
+        }
+      }
+
+      const tasks = Array.isArray(raw.tasks) ? (raw.tasks as RawTask[]) : [];
+      for (const task of tasks) {
+        if (typeof task.id === "number") {
+          task.id = String(task.id);
+          changes.push(`task ${task.id}: converted numeric id to string`);
+        }
+        for (const key of ["blockedBy", "blocks"]) {
+          if (!Array.isArray(task[key])) {
+            task[key] = [];
+            changes.push(`task ${task.id}: added empty '${key}'`);
+          } else if ((task[key] as unknown[]).some(id => typeof id === "number")) {
+            task[key] = (task[key] as unknown[]).map(String);
+            changes.push(`task ${task.id}: converted numeric ids in '${key}' to strings`);
+          }
+        }
+        if (typeof task.notes !== "string") {
+          task.notes = "";
+          changes.push(`task ${task.id}: added empty 'notes'`);
+        }
+      }
+
+      // Earlier versions removed a completed blocker from blockedBy but kept
+      // it in the blocker's blocks list
+      for (const blocker of tasks) {
+        for (const id of blocker.blocks as string[]) {
+          const dependent = tasks.find(t => t.id === id);
+          if (dependent && !(dependent.blockedBy as string[]).includes(blocker.id as string)) {
+            (dependent.blockedBy as string[]).push(blocker.id as string);
+            changes.push(`task ${id}: restored dependency on ${blocker.id}`);
+          }
+        }
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Track the next task ID so deleted IDs aren't handed out again",
+    migrate(raw, changes) {
+      const tasks = Array.isArray(raw.tasks) ? (raw.tasks as RawTask[]) : [];
+      raw.nextId = tasks.reduce((max, t) => Math.max(max, parseInt(String(t.id)) || 0), 0) + 1;
+      changes.push(`set nextId to ${raw.nextId}`);
+    },
+  },
+];
+
+/**
+ * Bring parsed file content up to CURRENT_SCHEMA_VERSION and validate it.
+ * Throws with a readable reason when the content can't be used.
+ */
+function migrateProjectData(raw: unknown): { data: TaskProject; fromVersion: number; changes: string[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw) || !Array.isArray((raw as RawProject).tasks)) {
+    throw new Error("missing 'tasks' array");
+  }
+
+  const project = raw as RawProject;
+  const fromVersion = typeof project.schemaVersion === "number" ? project.schemaVersion : 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `schemaVersion ${fromVersion} is newer than this plugin supports (${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  const changes: string[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion) {
+      migration.migrate(project, changes);
+      project.schemaVersion = migration.version;
+      changes.push(`schemaVersion ${migration.version}: ${migration.description}`);
+    }
+  }
+
+  if (!Value.Check(TaskProjectSchema, project)) {
+    const problems = [...Value.Errors(TaskProjectSchema, project)]
+      .slice(0, 3)
+      .map(e => `${e.path || "/"}: ${e.message}`);
+    throw new Error(`schema validation failed (${problems.join("; ")})`);
+  }
+
+  return { data: project as unknown as TaskProject, fromVersion, changes };
+}
+
+// ============================================================================
+// Storage Backends
+// ============================================================================
+
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+
+type LockInfo = {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+};
+
+type StorageBackendKind = "json" | "sqlite";
+
+/**
+ * Where task projects and their activity logs are kept. TaskStorage holds
+ * the task logic (migrations, cascades, plans) and reads and writes through
+ * a backend. Plans stay Markdown files whatever the backend.
+ */
+interface StorageBackend {
+  readonly kind: StorageBackendKind;
+
+  // Project names. `status` narrows the list where the backend can do that
+  // without reading each project (SQLite); a backend that can't may return
+  // every name, so callers check the status of what they load.
+  listProjects(status?: TaskProject["status"]): string[];
+
+  // Stored names that aren't valid project names, e.g. `My_Project` from
+  // before names were normalized. listProjects leaves them out.
+  listLegacyProjects(): string[];
+
+  // Move a legacy-named project and its activity log to `to`
+  renameProject(from: string, to: string): void;
+
+  // Raw stored content, or null if the project doesn't exist
+  readProject(project: string): string | null;
+
+  writeProject(data: TaskProject): void;
+
+  // Remove a project and its activity log
+  deleteProject(project: string): void;
+
+  // Keep a copy of content that failed to load; returns where it went
+  backupCorrupt(project: string, content: string): string;
+
+  // Run `fn` holding the project's lock. Must be re-entrant.
+  withLock<T>(project: string, fn: () => T): T;
+
+  appendEvents(project: string, events: TaskEvent[]): void;
+
+  readEvents(project: string): TaskEvent[];
+
+  replaceEvents(project: string, events: TaskEvent[]): void;
+
+  close(): void;
+}
+
+function contentDigest(content: string): string {
+  return createHash("sha256").update(content).digest("hex").slice(0, 12);
+}
+
+/**
+ * One `{project}.json` file per project with a `{project}.events.jsonl`
+ * activity log next to it, locked with `{project}.lock` files.
+ */
+class JsonBackend implements StorageBackend {
+  readonly kind = "json";
+
+  // Re-entrancy counts for locks held by this instance
+  private readonly heldLocks = new Map<string, number>();
+  private readonly lockTimeoutMs: number;
+
   constructor(
     private readonly tasksDir: string,
-    private readonly plansDir: string,
+    options: { lockTimeoutMs?: number } = {},
   ) {
-    // Ensure directories exist
+    this.lockTimeoutMs = options.lockTimeoutMs ?? LOCK_TIMEOUT_MS;
     fs.mkdirSync(this.tasksDir, { recursive: true });
-    fs.mkdirSync(this.plansDir, { recursive: true });
   }
 
   private projectPath(project: string): string {
-    return path.join(this.tasksDir, `${project}.json`);
+    return containedPath(this.tasksDir, project, ".json");
   }
 
-  private planPath(project: string): string {
-    return path.join(this.plansDir, `${project}.md`);
+  private eventsPath(project: string): string {
+    return containedPath(this.tasksDir, project, ".events.jsonl");
   }
 
-  listProjects(): string[] {
+  private lockPath(project: string): string {
+    return containedPath(this.tasksDir, project, ".lock");
+  }
+
+  private storedNames(): string[] {
     try {
       return fs.readdirSync(this.tasksDir)
         .filter(f => f.endsWith(".json"))
-        .map(f => f.replace(".json", ""));
+        .map(f => f.slice(0, -".json".length))
+        .sort();
     } catch {
       return [];
     }
   }
 
-  getProject(project: string): TaskProject | null {
-    const filePath = this.projectPath(project);
+  // Filtering by status would mean parsing every file only for the caller
+  // to parse it again, so `status` is left to the caller
+  listProjects(): string[] {
+    return this.storedNames().filter(isValidProjectName);
+  }
+
+  listLegacyProjects(): string[] {
+    return this.storedNames().filter(name => !isValidProjectName(name));
+  }
+
+  renameProject(from: string, to: string): void {
+    // Legacy names can't go through projectPath, so only take ones we listed
+    if (!this.listLegacyProjects().includes(from)) {
+      throw new Error(`No legacy project '${from}'`);
+    }
+    const legacyEvents = path.join(this.tasksDir, `${from}.events.jsonl`);
+    if (fs.existsSync(legacyEvents)) {
+      fs.renameSync(legacyEvents, this.eventsPath(to));
+    }
+    fs.renameSync(path.join(this.tasksDir, `${from}.json`), this.projectPath(to));
+  }
+
+  readProject(project: string): string | null {
     try {
-      const content = fs.readFileSync(filePath, "utf-8");
-      return JSON.parse(content) as TaskProject;
-    } catch {
-      return null;
+      return fs.readFileSync(this.projectPath(project), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw err;
     }
   }
 
-  saveProject(data: TaskProject): void {
-    const filePath = this.projectPath(data.project);
-    data.updated = new Date().toISOString().split("T")[0];
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+  writeProject(data: TaskProject): void {
+    writeFileAtomic(this.projectPath(data.project), JSON.stringify(data, null, 2));
   }
 
-  createProject(project: string): TaskProject {
-    const today = new Date().toISOString().split("T")[0];
-    const data: TaskProject = {
-      project,
-      status: "active",
-      created: today,
-      updated: today,
-      tasks: [],
-    };
-    this.saveProject(data);
-    
-    // Create plan file
-    const planContent = `# ${project}
+  deleteProject(project: string): void {
+    fs.rmSync(this.projectPath(project), { force: true });
+    fs.rmSync(this.eventsPath(project), { force: true });
+  }
 
-**Status:** active
-**Started:** ${today}
-**Last Updated:** ${today}
+  backupCorrupt(project: string, content: string): string {
+    const backupPath = `${this.projectPath(project)}.corrupt-${contentDigest(content)}`;
+    if (!fs.existsSync(backupPath)) {
+      fs.writeFileSync(backupPath, content);
+    }
+    return backupPath;
+  }
 
-## Goal
-[Describe the objective]
+  /**
+   * The lock is a `{project}.lock` file created exclusively; a lock whose
+   * owner process is gone, or that is older than LOCK_STALE_MS, is treated
+   * as stale and broken.
+   */
+  withLock<T>(project: string, fn: () => T): T {
+    const held = this.heldLocks.get(project) ?? 0;
+    if (held > 0) {
+      this.heldLocks.set(project, held + 1);
+      try {
+        return fn();
+      } finally {
+        this.heldLocks.set(project, held);
+      }
+    }
 
-## Phases
+    const lockPath = this.lockPath(project);
+    this.acquireLock(project, lockPath);
+    this.heldLocks.set(project, 1);
+    try {
+      return fn();
+    } finally {
+      this.heldLocks.delete(project);
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
 
-### Phase 1: [Name]
-- [ ] Step 1
-- [ ] Step 2
+  private acquireLock(project: string, lockPath: string): void {
+    const info: LockInfo = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      acquiredAt: new Date().toISOString(),
+    };
+    const deadline = Date.now() + this.lockTimeoutMs;
 
-## Notes
-[Context, decisions, blockers]
-`;
-    fs.writeFileSync(this.planPath(project), planContent);
-    
-    return data;
+    for (;;) {
+      try {
+        fs.writeFileSync(lockPath, JSON.stringify(info), { flag: "wx" });
+        return;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw err;
+        }
+      }
+
+      if (this.isLockStale(lockPath)) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new ProjectLockError(project, lockPath);
+      }
+      sleepSync(LOCK_RETRY_MS);
+    }
   }
 
-  getActiveProjects(): TaskProject[] {
-    return this.listProjects()
-      .map(p => this.getProject(p))
-      .filter((p): p is TaskProject => p !== null && p.status === "active");
+  private isLockStale(lockPath: string): boolean {
+    try {
+      const stat = fs.statSync(lockPath);
+      if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        return true;
+      }
+      const info = JSON.parse(fs.readFileSync(lockPath, "utf-8")) as Partial<LockInfo>;
+      return info.hostname === os.hostname() && typeof info.pid === "number" && !isProcessAlive(info.pid);
+    } catch (err) {
+      // Vanished between our attempts: free to retry. Unreadable content is
+      // most likely a lock being written right now, so wait for it.
+      return (err as NodeJS.ErrnoException).code === "ENOENT";
+    }
   }
 
-  addTask(project: string, subject: string): Task {
-    let data = this.getProject(project);
-    if (!data) {
-      data = this.createProject(project);
+  appendEvents(project: string, events: TaskEvent[]): void {
+    if (events.length > 0) {
+      fs.appendFileSync(this.eventsPath(project), events.map(e => `${JSON.stringify(e)}\n`).join(""));
+    }
+  }
+
+  /**
+   * A line cut short by a crash mid-append is skipped.
+   */
+  readEvents(project: string): TaskEvent[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.eventsPath(project), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+
+    const events: TaskEvent[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        continue;
+      }
     }
+    return events;
+  }
+
+  replaceEvents(project: string, events: TaskEvent[]): void {
+    writeFileAtomic(this.eventsPath(project), events.map(e => `${JSON.stringify(e)}\n`).join(""));
+  }
+
+  close(): void {}
+}
+
+// The subset of node:sqlite's DatabaseSync used here
+type SqliteDatabase = {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+  close(): void;
+};
+
+const requireBuiltin = createRequire(import.meta.url);
+
+function openSqliteDatabase(dbPath: string): SqliteDatabase {
+  let sqlite: { DatabaseSync: new (path: string) => SqliteDatabase };
+  try {
+    sqlite = requireBuiltin("node:sqlite");
+  } catch {
+    throw new Error("The sqlite storage backend needs Node.js 22.5 or later (node:sqlite)");
+  }
+  return new sqlite.DatabaseSync(dbPath);
+}
+
+/**
+ * Every project in a single SQLite database. Project documents are stored
+ * whole, with status and update time in their own columns so listings don't
+ * have to parse every project. A write transaction stands in for the lock,
+ * which also makes every locked change all-or-nothing.
+ */
+class SqliteBackend implements StorageBackend {
+  readonly kind = "sqlite";
+
+  private readonly db: SqliteDatabase;
+  // Nesting depth of withLock; only the outermost call opens a transaction
+  private lockDepth = 0;
+
+  constructor(
+    private readonly dbPath: string,
+    options: { lockTimeoutMs?: number } = {},
+  ) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = openSqliteDatabase(dbPath);
+    this.db.exec(`
+      PRAGMA journal_mode = WAL;
+      PRAGMA busy_timeout = ${Math.floor(options.lockTimeoutMs ?? LOCK_TIMEOUT_MS)};
+      CREATE TABLE IF NOT EXISTS projects (
+        name TEXT PRIMARY KEY,
+        status TEXT,
+        updated TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        project TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS events_by_project ON events (project, seq);
+      CREATE TABLE IF NOT EXISTS corrupt_projects (
+        name TEXT NOT NULL,
+        digest TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (name, digest)
+      );
+    `);
+  }
+
+  listProjects(status?: TaskProject["status"]): string[] {
+    const rows = status
+      ? this.db.prepare("SELECT name FROM projects WHERE status = ? OR status IS NULL ORDER BY name").all(status)
+      : this.db.prepare("SELECT name FROM projects ORDER BY name").all();
+    return (rows as Array<{ name: string }>).map(row => row.name).filter(isValidProjectName);
+  }
+
+  listLegacyProjects(): string[] {
+    const rows = this.db.prepare("SELECT name FROM projects ORDER BY name").all() as Array<{ name: string }>;
+    return rows.map(row => row.name).filter(name => !isValidProjectName(name));
+  }
+
+  renameProject(from: string, to: string): void {
+    this.withLock(to, () => {
+      this.db.prepare("UPDATE projects SET name = ? WHERE name = ?").run(to, from);
+      this.db.prepare("UPDATE events SET project = ? WHERE project = ?").run(to, from);
+    });
+  }
+
+  readProject(project: string): string | null {
+    const row = this.db.prepare("SELECT data FROM projects WHERE name = ?").get(project) as { data: string } | undefined;
+    return row?.data ?? null;
+  }
+
+  writeProject(data: TaskProject): void {
+    this.withLock(data.project, () => {
+      this.db.prepare(
+        "INSERT INTO projects (name, status, updated, data) VALUES (?, ?, ?, ?) " +
+        "ON CONFLICT (name) DO UPDATE SET status = excluded.status, updated = excluded.updated, data = excluded.data"
+      ).run(data.project, data.status, data.updated, JSON.stringify(data));
+    });
+  }
+
+  deleteProject(project: string): void {
+    this.withLock(project, () => {
+      this.db.prepare("DELETE FROM projects WHERE name = ?").run(project);
+      this.db.prepare("DELETE FROM events WHERE project = ?").run(project);
+    });
+  }
+
+  backupCorrupt(project: string, content: string): string {
+    const digest = contentDigest(content);
+    this.db.prepare("INSERT OR IGNORE INTO corrupt_projects (name, digest, data) VALUES (?, ?, ?)")
+      .run(project, digest, content);
+    return `${this.dbPath} (table corrupt_projects, name '${project}', digest ${digest})`;
+  }
+
+  withLock<T>(project: string, fn: () => T): T {
+    if (this.lockDepth > 0) {
+      this.lockDepth++;
+      try {
+        return fn();
+      } finally {
+        this.lockDepth--;
+      }
+    }
+
+    try {
+      this.db.exec("BEGIN IMMEDIATE");
+    } catch (err) {
+      if (/busy|locked/i.test(err instanceof Error ? err.message : String(err))) {
+        throw new ProjectLockError(project, this.dbPath);
+      }
+      throw err;
+    }
+    this.lockDepth = 1;
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    } finally {
+      this.lockDepth = 0;
+    }
+  }
+
+  appendEvents(project: string, events: TaskEvent[]): void {
+    this.withLock(project, () => {
+      const insert = this.db.prepare("INSERT INTO events (project, data) VALUES (?, ?)");
+      for (const event of events) {
+        insert.run(project, JSON.stringify(event));
+      }
+    });
+  }
+
+  readEvents(project: string): TaskEvent[] {
+    const rows = this.db.prepare("SELECT data FROM events WHERE project = ? ORDER BY seq").all(project);
+    return (rows as Array<{ data: string }>).map(row => JSON.parse(row.data));
+  }
+
+  replaceEvents(project: string, events: TaskEvent[]): void {
+    this.withLock(project, () => {
+      this.db.prepare("DELETE FROM events WHERE project = ?").run(project);
+      this.appendEvents(project, events);
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+// ============================================================================
+// Storage Layer
+// ============================================================================
+
+type StatusUpdateResult = {
+  task: Task;
+  unblocked: string[];
+  reblocked: string[];
+  // Parents completed or reopened by rolling up their subtasks
+  parentsCompleted: string[];
+  parentsReopened: string[];
+};
+
+type MoveResult = {
+  task: Task;
+  oldId: string;
+  // Old ID → new ID for the task and its subtasks
+  idMap: Record<string, string>;
+  unblocked: string[];
+  droppedDependencies: string[];
+};
+
+type MigrationReport = {
+  project: string;
+  fromVersion: number | null;
+  toVersion: number;
+  changes: string[];
+  error?: string;
+};
+
+const EXPORT_FORMAT = "openclaw-tasks-export";
+
+// Every project with its activity log and plan, as written by `tasks export`
+type ExportBundle = {
+  format: typeof EXPORT_FORMAT;
+  version: 1;
+  exportedAt: string;
+  projects: Array<{ data: TaskProject; events: TaskEvent[]; plan: string | null }>;
+};
+
+type ImportReport = {
+  project: string;
+  imported: boolean;
+  reason?: string;
+};
+
+type SourceImportResult = {
+  created: Task[];
+  // Already imported, but the item moved to another line
+  updated: Task[];
+  completed: Task[];
+  unchanged: number;
+};
+
+type TaskStorageOptions = {
+  // Where projects are kept (default: JSON files in tasksDir)
+  backend?: StorageBackend;
+  // Lock wait for the default backend
+  lockTimeoutMs?: number;
+  // Recorded with every change this instance makes, and owns its claims
+  session?: string;
+  // How long a claim lasts unless renewed
+  leaseMinutes?: number;
+  // Where archived projects go (default: tasksDir/archive)
+  archiveDir?: string;
+  // Told about files skipped because they can't be read
+  warn?: (message: string) => void;
+  // Told what every project or plan write left on disk, so a file watcher
+  // can tell the plugin's own writes from outside edits
+  onWrite?: (project: string, file: "tasks" | "plan", content: string) => void;
+};
+
+class TaskStorage {
+  private readonly backend: StorageBackend;
+  private readonly session?: string;
+  private readonly leaseMinutes: number;
+  private readonly archiveDir: string;
+  private readonly warn: (message: string) => void;
+  private readonly onWrite: (project: string, file: "tasks" | "plan", content: string) => void;
+  // What each loaded project was read from, to notice edits made since
+  private readonly loaded = new WeakMap<TaskProject, { digest: string; base: TaskProject }>();
+
+  constructor(
+    tasksDir: string,
+    private readonly plansDir: string,
+    options: TaskStorageOptions = {},
+  ) {
+    this.backend = options.backend ?? new JsonBackend(tasksDir, { lockTimeoutMs: options.lockTimeoutMs });
+    this.session = options.session;
+    this.leaseMinutes = options.leaseMinutes ?? DEFAULT_LEASE_MINUTES;
+    this.archiveDir = options.archiveDir ?? path.join(tasksDir, "archive");
+    this.warn = options.warn ?? (() => {});
+    this.onWrite = options.onWrite ?? (() => {});
+
+    // Ensure directories exist
+    fs.mkdirSync(this.plansDir, { recursive: true });
+  }
+
+  private planPath(project: string): string {
+    return containedPath(this.plansDir, project, ".md");
+  }
+
+  private writePlan(project: string, content: string): void {
+    writeFileAtomic(this.planPath(project), content);
+    this.onWrite(project, "plan", content);
+  }
+
+  // --------------------------------------------------------------------------
+  // Locking
+  // --------------------------------------------------------------------------
+
+  /**
+   * Run `fn` while holding the lock for `project`, so the agent and the CLI
+   * can change the same project without losing each other's updates.
+   */
+  withProjectLock<T>(project: string, fn: () => T): T {
+    return this.backend.withLock(validateProjectName(project), fn);
+  }
+
+  // --------------------------------------------------------------------------
+  // Projects
+  // --------------------------------------------------------------------------
+
+  listProjects(): string[] {
+    return this.backend.listProjects();
+  }
+
+  /**
+   * Read a project, or null if it doesn't exist. A file that exists but
+   * can't be parsed is copied aside and reported with ProjectCorruptedError
+   * rather than treated as missing, so callers never write over it.
+   */
+  getProject(project: string): TaskProject | null {
+    return this.loadProject(project)?.data ?? null;
+  }
+
+  /**
+   * Read, migrate and validate a project file. Older schema versions are
+   * upgraded in memory; the file itself is rewritten on the next save.
+   */
+  private loadProject(project: string): ReturnType<typeof migrateProjectData> | null {
+    project = validateProjectName(project);
+    const content = this.backend.readProject(project);
+    if (content === null) {
+      return null;
+    }
+
+    let loaded: ReturnType<typeof migrateProjectData>;
+    try {
+      loaded = migrateProjectData(JSON.parse(content));
+    } catch (err) {
+      throw new ProjectCorruptedError(project, this.backend.backupCorrupt(project, content), err);
+    }
+    this.loaded.set(loaded.data, { digest: contentDigest(content), base: structuredClone(loaded.data) });
+    return loaded;
+  }
+
+  /**
+   * Upgrade every project file to the current schema, renaming legacy-named
+   * ones first (see migrateLegacyProject). With `dryRun`, only report what
+   * would change.
+   */
+  migrateProjects(opts: { dryRun?: boolean } = {}): MigrationReport[] {
+    const renamed = this.listLegacyProjects().map(legacy => this.migrateLegacyProject(legacy, opts));
+    const done = new Set(renamed.filter(r => !r.error).map(r => r.project));
+    return [...renamed, ...this.listProjects().filter(p => !done.has(p)).map(project => {
+      try {
+        return this.withProjectLock(project, () => {
+          const loaded = this.loadProject(project)!;
+          if (!opts.dryRun && loaded.changes.length > 0) {
+            this.saveProject(loaded.data);
+          }
+          return {
+            project,
+            fromVersion: loaded.fromVersion,
+            toVersion: CURRENT_SCHEMA_VERSION,
+            changes: loaded.changes,
+          };
+        });
+      } catch (err) {
+        return {
+          project,
+          fromVersion: null,
+          toVersion: CURRENT_SCHEMA_VERSION,
+          changes: [],
+          error: err instanceof Error ? err.message : String(err),
+        };
+      }
+    })];
+  }
+
+  /**
+   * Projects stored under names that aren't valid anymore (`My_Project`).
+   * They're hidden from listProjects until `tasks migrate` renames them.
+   */
+  listLegacyProjects(): string[] {
+    return this.backend.listLegacyProjects();
+  }
+
+  /**
+   * Move a legacy-named project, its activity log and its plan to the
+   * normalized name, which is what every tool already looks it up by, then
+   * upgrade it like any other project. Refused if that name is taken.
+   */
+  private migrateLegacyProject(legacy: string, opts: { dryRun?: boolean }): MigrationReport {
+    try {
+      const project = validateProjectName(legacy);
+      return this.withProjectLock(project, () => {
+        if (this.backend.readProject(project) !== null) {
+          throw new Error(`can't rename to '${project}', which already exists`);
+        }
+        if (opts.dryRun) {
+          return { project, fromVersion: null, toVersion: CURRENT_SCHEMA_VERSION, changes: [`rename from '${legacy}'`] };
+        }
+
+        this.backend.renameProject(legacy, project);
+        const legacyPlan = path.join(this.plansDir, `${legacy}.md`);
+        if (fs.existsSync(legacyPlan) && !fs.existsSync(this.planPath(project))) {
+          this.writePlan(project, fs.readFileSync(legacyPlan, "utf-8"));
+          fs.rmSync(legacyPlan);
+        }
+        const loaded = this.loadProject(project)!;
+        loaded.data.project = project;
+        this.saveProject(loaded.data);
+        return {
+          project,
+          fromVersion: loaded.fromVersion,
+          toVersion: CURRENT_SCHEMA_VERSION,
+          changes: [`renamed from '${legacy}'`, ...loaded.changes],
+        };
+      });
+    } catch (err) {
+      return {
+        project: legacy,
+        fromVersion: null,
+        toVersion: CURRENT_SCHEMA_VERSION,
+        changes: [],
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  /**
+   * Write a project. If it was read with getProject and the stored copy has
+   * changed since (say, edited by hand), the other edits are merged in;
+   * when both sides changed the same field, ProjectConflictError is thrown
+   * and nothing is written.
+   */
+  saveProject(data: TaskProject): void {
+    this.withProjectLock(data.project, () => {
+      const snapshot = this.loaded.get(data);
+      const stored = snapshot ? this.backend.readProject(data.project) : null;
+      if (snapshot && stored !== null && contentDigest(stored) !== snapshot.digest) {
+        const { merged, conflicts } = mergeProjects(snapshot.base, data, this.getProject(data.project)!);
+        if (conflicts.length > 0) {
+          throw new ProjectConflictError(data.project, conflicts);
+        }
+        Object.assign(data, merged);
+      }
+
+      data.schemaVersion = CURRENT_SCHEMA_VERSION;
+      data.updated = new Date().toISOString();
+      this.backend.writeProject(data);
+      const written = this.backend.readProject(data.project) ?? "";
+      this.onWrite(data.project, "tasks", written);
+      this.loaded.set(data, { digest: contentDigest(written), base: structuredClone(data) });
+    });
+  }
+
+  /**
+   * Locked read-modify-write of a project file. Throws if the project doesn't
+   * exist unless `create` is set. Every task the change touched is recorded
+   * in the activity log; `undoes` marks the change as reverting others.
+   */
+  private mutateProject<T>(
+    project: string,
+    fn: (data: TaskProject) => T,
+    opts: { create?: boolean; undoes?: string[] } = {},
+  ): T {
+    return this.withProjectLock(project, () => {
+      let data = this.getProject(project);
+      if (!data) {
+        if (!opts.create) {
+          throw new Error(`Project '${project}' not found`);
+        }
+        data = this.createProject(project);
+      }
+
+      const before = new Map(data.tasks.map(t => [t.id, structuredClone(t)]));
+      const result = fn(data);
+
+      const now = new Date().toISOString();
+      const event = { change: randomUUID(), at: now, session: this.session, undoes: opts.undoes };
+      const events: TaskEvent[] = [];
+      for (const task of data.tasks) {
+        const previous = before.get(task.id);
+        if (JSON.stringify(previous) !== JSON.stringify(task)) {
+          task.updatedAt = now;
+          events.push({ ...event, taskId: task.id, before: previous ?? null, after: structuredClone(task) });
+        }
+        before.delete(task.id);
+      }
+      for (const [taskId, previous] of before) {
+        events.push({ ...event, taskId, before: previous, after: null });
+      }
+
+      this.saveProject(data);
+      this.backend.appendEvents(project, events);
+      this.syncPlanFromTasks(data);
+      return result;
+    });
+  }
+
+  /**
+   * Create an empty project. `plan` replaces the default plan skeleton, but
+   * an existing plan file is always kept.
+   */
+  createProject(project: string, opts: { plan?: string } = {}): TaskProject {
+    project = validateProjectName(project);
+    const now = new Date().toISOString();
+    const today = now.split("T")[0];
+    const data: TaskProject = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      project,
+      status: "active",
+      created: now,
+      updated: now,
+      nextId: 1,
+      tasks: [],
+    };
+
+    return this.withProjectLock(project, () => {
+      this.saveProject(data);
+
+      // Create plan file (never clobber a plan the user already wrote)
+      if (!fs.existsSync(this.planPath(project))) {
+        const planContent = opts.plan ?? `# ${project}
+
+**Status:** active
+**Started:** ${today}
+**Last Updated:** ${today}
+
+## Goal
+[Describe the objective]
+
+## Phases
+
+### Phase 1: [Name]
+- [ ] Step 1
+- [ ] Step 2
+
+## Notes
+[Context, decisions, blockers]
+`;
+        this.writePlan(project, planContent);
+      }
+
+      return data;
+    });
+  }
+
+  /**
+   * Create `project` from a template: its plan, then its tasks with keys
+   * wired to the new task IDs. Placeholders take their values from
+   * `variables`, then the template's defaults, then the built-in `project`
+   * and `date`; any left without a value fail the call before anything is
+   * written. Fails if the project already exists.
+   */
+  createFromTemplate(
+    project: string,
+    template: ProjectTemplate,
+    variables: Record<string, string> = {},
+  ): { data: TaskProject; tasks: Task[] } {
+    project = validateProjectName(project);
+    template = checkTemplate(template, "(inline)");
+    const values: Record<string, string> = {
+      project,
+      date: new Date().toISOString().split("T")[0],
+      ...template.variables,
+      ...variables,
+    };
+
+    const missing = [...new Set(
+      templateStrings(template).flatMap(text => [...text.matchAll(PLACEHOLDER_PATTERN)].map(m => m[1]))
+    )].filter(name => !(name in values));
+    if (missing.length > 0) {
+      throw new Error(`Template needs a value for: ${missing.join(", ")}`);
+    }
+    const fill = (text: string) => fillPlaceholders(text, values);
+
+    const created = this.withProjectLock(project, () => {
+      if (this.backend.readProject(project) !== null) {
+        throw new Error(`Project '${project}' already exists`);
+      }
+
+      // Build the tasks on a scratch copy first so a filled value that
+      // doesn't validate fails the call before anything is written
+      const now = new Date().toISOString();
+      const draft: TaskProject = { project, status: "active", created: now, updated: now, nextId: 1, tasks: [] };
+      const ids = new Map<string, string>();
+      const tasks = (template.tasks ?? []).map((spec, i) => {
+        const task = this.insertTask(draft, fill(spec.subject), {
+          blockedBy: spec.blockedBy?.map(ref => ids.get(ref) ?? ref),
+          parentId: spec.parent !== undefined ? ids.get(spec.parent) : undefined,
+          notes: spec.notes !== undefined ? fill(spec.notes) : undefined,
+          priority: spec.priority,
+          tags: spec.tags?.map(fill),
+          assignee: spec.assignee !== undefined ? fill(spec.assignee) : undefined,
+          due: spec.due !== undefined ? fill(spec.due) : undefined,
+          estimate: spec.estimate,
+        });
+        ids.set(spec.key ?? String(i + 1), task.id);
+        return task;
+      });
+
+      const plan = template.plan === undefined ? undefined : [template.plan].flat().join("\n");
+      this.createProject(project, { plan: plan === undefined ? undefined : fill(plan) });
+      const data = this.mutateProject(project, data => {
+        data.tasks = draft.tasks;
+        data.nextId = draft.nextId;
+        return data;
+      });
+      return { data, tasks };
+    });
+
+    // Other projects are updated after our lock is released
+    for (const task of created.tasks) {
+      this.linkExternal(project, task.id, task.blockedBy);
+    }
+    return created;
+  }
+
+  getActiveProjects(): TaskProject[] {
+    return this.backend.listProjects("active")
+      .map(p => this.tryGetProject(p))
+      .filter((p): p is TaskProject => p !== null && p.status === "active");
+  }
+
+  /**
+   * Like getProject, but a corrupted file reads as null so one bad project
+   * doesn't break listings of all the others.
+   */
+  tryGetProject(project: string): TaskProject | null {
+    try {
+      return this.getProject(project);
+    } catch (err) {
+      if (err instanceof ProjectCorruptedError) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Tasks
+  // --------------------------------------------------------------------------
+
+  addTask(
+    project: string,
+    subject: string,
+    opts: { blockedBy?: string[]; parentId?: string; notes?: string } & TaskFields = {},
+  ): Task {
+    project = validateProjectName(project);
+    const task = this.mutateProject(project, data => this.insertTask(data, subject, opts), { create: true });
+    this.linkExternal(project, task.id, task.blockedBy);
+    return task;
+  }
+
+  /**
+   * Validate a new task and add it to `data`. Blockers in other projects
+   * aren't told about it; that's left to linkExternal once it's saved.
+   */
+  private insertTask(
+    data: TaskProject,
+    subject: string,
+    opts: { blockedBy?: string[]; parentId?: string; notes?: string } & TaskFields,
+  ): Task {
+    const project = data.project;
+    const blockedBy = [...new Set((opts.blockedBy ?? []).map(ref => normalizeTaskRef(ref, project)))];
+    const parent = opts.parentId ? data.tasks.find(t => t.id === opts.parentId) : undefined;
+    if (opts.parentId && !parent) {
+      throw new Error(`Parent task '${opts.parentId}' not found in project '${project}'`);
+    }
+
+    const external = this.resolveExternalTasks([{ blockedBy, blocks: [] }]);
+    const unknown = blockedBy.filter(id => isExternalRef(id) ? !external.has(id) : !data.tasks.some(t => t.id === id));
+    if (unknown.length > 0) {
+      throw new DependencyError(
+        `Unknown blocker task(s) in project '${project}': ${formatIds(unknown)}`
+      );
+    }
+
+    const task: Task = {
+      id: allocateTaskId(data),
+      subject,
+      status: "pending",
+      blockedBy,
+      blocks: [],
+      notes: opts.notes ?? "",
+      createdAt: new Date().toISOString(),
+    };
+    if (parent) {
+      task.parentId = parent.id;
+    }
+    applyTaskFields(task, opts);
+    if (openBlockers(task, data.tasks, external).length > 0) {
+      task.status = "blocked";
+    }
+
+    for (const blockerId of blockedBy.filter(id => !isExternalRef(id))) {
+      data.tasks.find(t => t.id === blockerId)!.blocks.push(task.id);
+    }
+
+    data.tasks.push(task);
+
+    // A new open subtask means a completed parent isn't done anymore
+    rollUpParents(data.tasks, task.parentId, {
+      task, unblocked: [], reblocked: [], parentsCompleted: [], parentsReopened: [],
+    }, external);
+    return task;
+  }
+
+  /**
+   * Set a task's status and cascade through its dependents and parents.
+   * `blockedBy` always keeps the declared dependencies; whether a task is
+   * actually waiting is derived from which of them are still open. Tasks in
+   * other projects waiting on anything that was completed or reopened are
+   * updated too, and reported as qualified references (`web#3`).
+   */
+  updateTaskStatus(
+    project: string,
+    taskId: string,
+    status: TaskStatus,
+    opts: { force?: boolean } = {},
+  ): StatusUpdateResult {
+    project = validateProjectName(project);
+    const { result, changed } = this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found in project '${project}'`);
+      }
+      this.checkClaim(project, task, opts.force);
+      return this.applyStatus(data, task, status);
+    });
+
+    this.propagateStatus(project, changed, result);
+    return result;
+  }
+
+  /**
+   * The in-project part of updateTaskStatus. `changed` lists the tasks whose
+   * completion changed, for propagateStatus to pass on once `data` is saved.
+   */
+  private applyStatus(
+    data: TaskProject,
+    task: Task,
+    status: TaskStatus,
+  ): { result: StatusUpdateResult; changed: string[] } {
+    if (status === "completed") {
+      const openChildren = childTasks(data.tasks, task.id).filter(t => t.status !== "completed");
+      if (openChildren.length > 0) {
+        throw new Error(
+          `Task #${task.id} has open subtasks: ${openChildren.map(t => `#${t.id}`).join(", ")}`
+        );
+      }
+    }
+
+    const result: StatusUpdateResult = {
+      task,
+      unblocked: [],
+      reblocked: [],
+      parentsCompleted: [],
+      parentsReopened: [],
+    };
+    const external = this.resolveExternalTasks(data.tasks);
+    const completionChanged = (task.status === "completed") !== (status === "completed");
+    applyTaskStatus(data.tasks, task, status, result, external);
+    // Starting work claims the task; stopping it gives the claim up
+    if (status !== "in_progress") {
+      delete task.claim;
+    } else if (this.session) {
+      task.claim = this.newClaim();
+    }
+    rollUpParents(data.tasks, task.parentId, result, external);
+    // Only finished work stays archived
+    for (const reopened of data.tasks.filter(t => t.archivedAt && t.status !== "completed")) {
+      delete reopened.archivedAt;
+    }
+    const changed = [...(completionChanged ? [task.id] : []), ...result.parentsCompleted, ...result.parentsReopened];
+    return { result, changed };
+  }
+
+  /**
+   * Make `taskId` wait on `blockerId`, which may be a qualified reference
+   * (`api#4`) to a task in another project.
+   */
+  setBlocker(project: string, taskId: string, blockerId: string, opts: { force?: boolean } = {}): void {
+    project = validateProjectName(project);
+    const blockerRef = normalizeTaskRef(blockerId, project);
+    this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        const missing = [taskId, blockerRef].filter(id => !isExternalRef(id) && !data.tasks.some(t => t.id === id));
+        throw new Error(`Task ${missing.map(id => `'${id}'`).join(" and ")} not found in project '${project}'`);
+      }
+      this.checkClaim(project, task, opts.force);
+      this.addBlocker(data, task, blockerRef);
+    });
+    this.linkExternal(project, taskId, [blockerRef]);
+  }
+
+  /**
+   * The in-project part of setBlocker; the blocker's own project, if it's
+   * another one, is told by linkExternal once `data` is saved.
+   */
+  private addBlocker(data: TaskProject, task: Task, blockerRef: string): void {
+    const project = data.project;
+    const taskId = task.id;
+    const external = this.resolveExternalTasks([{ blockedBy: [blockerRef], blocks: [] }]);
+    const blocker = isExternalRef(blockerRef) ? external.get(blockerRef) : data.tasks.find(t => t.id === blockerRef);
+    if (!blocker) {
+      const ref = parseTaskRef(blockerRef) ?? { project, taskId: blockerRef };
+      throw new Error(`Task '${ref.taskId}' not found in project '${ref.project}'`);
+    }
+
+    if (taskId === blockerRef) {
+      throw new DependencyError(`Task #${taskId} cannot block itself`, [taskId, taskId]);
+    }
+
+    // Adding "task waits on blocker" closes a cycle if blocker already
+    // (transitively) waits on task, possibly by way of other projects
+    const projects = new Map<string, TaskProject | null>([[project, data]]);
+    const lookup = (ref: string): Task | undefined => {
+      const { project: name, taskId: id } = parseTaskRef(ref)!;
+      if (!projects.has(name)) {
+        projects.set(name, this.tryGetProject(name));
+      }
+      return projects.get(name)?.tasks.find(t => t.id === id);
+    };
+    const qualify = (id: string) => isExternalRef(id) ? id : `${project}#${id}`;
+    const existing = findBlockerPath(lookup, qualify(blockerRef), qualify(taskId));
+    if (existing) {
+      const cycle = [taskId, ...existing.map(ref => ref.startsWith(`${project}#`) ? parseTaskRef(ref)!.taskId : ref)];
+      throw new DependencyError(
+        `Blocking #${taskId} on ${formatTaskRef(blockerRef)} would create a dependency cycle: ${formatCycle(cycle)}`,
+        cycle,
+      );
+    }
+
+    if (!task.blockedBy.includes(blockerRef)) {
+      task.blockedBy.push(blockerRef);
+      if (blocker.status !== "completed" && task.status !== "completed") {
+        task.status = "blocked";
+      }
+    }
+    if (!isExternalRef(blockerRef) && !blocker.blocks.includes(taskId)) {
+      blocker.blocks.push(taskId);
+    }
+  }
+
+  updateTaskNotes(project: string, taskId: string, notes: string, opts: { force?: boolean } = {}): void {
+    project = validateProjectName(project);
+    this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found`);
+      }
+      this.checkClaim(project, task, opts.force);
+
+      task.notes = notes;
+    });
+  }
+
+  /**
+   * Append a timestamped comment. Unlike `notes`, earlier comments are kept.
+   */
+  addComment(project: string, taskId: string, text: string, opts: { force?: boolean } = {}): TaskComment {
+    project = validateProjectName(project);
+    if (!text.trim()) {
+      throw new Error("Comment must not be empty");
+    }
+    return this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found in project '${project}'`);
+      }
+      this.checkClaim(project, task, opts.force);
+      return this.appendComment(task, text);
+    });
+  }
+
+  private appendComment(task: Task, text: string): TaskComment {
+    const comment: TaskComment = { at: new Date().toISOString(), text };
+    if (this.session) {
+      comment.session = this.session;
+    }
+    task.comments = [...(task.comments ?? []), comment];
+    return comment;
+  }
+
+  renameTask(project: string, taskId: string, subject: string, opts: { force?: boolean } = {}): Task {
+    project = validateProjectName(project);
+    if (!subject.trim()) {
+      throw new Error("Task subject must not be empty");
+    }
+    return this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found in project '${project}'`);
+      }
+      this.checkClaim(project, task, opts.force);
+
+      task.subject = subject;
+      this.editPlanItems(project, item => item.taskId === taskId ? { ...item, text: subject } : item);
+      return task;
+    });
+  }
+
+  /**
+   * Remove a task and every reference to it, including those from other
+   * projects. Dependents whose last open blocker it was become pending.
+   */
+  deleteTask(project: string, taskId: string, opts: { force?: boolean } = {}): { task: Task; unblocked: string[] } {
+    project = validateProjectName(project);
+    const deleted = this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found in project '${project}'`);
+      }
+      this.checkClaim(project, task, opts.force);
+
+      const unblocked = detachTask(data.tasks, taskId, this.resolveExternalTasks(data.tasks));
+      data.tasks = data.tasks.filter(t => t.id !== taskId);
+
+      // Subtasks move up to the deleted task's parent
+      for (const child of childTasks(data.tasks, taskId)) {
+        setOrDelete(child, "parentId", task.parentId ?? null);
+      }
+      rollUpParents(data.tasks, task.parentId, {
+        task, unblocked, reblocked: [], parentsCompleted: [], parentsReopened: [],
+      });
+
+      this.editPlanItems(project, item => item.taskId === taskId ? null : item);
+      return { task, unblocked };
+    });
+
+    deleted.unblocked.push(...this.unlinkExternal(project, [deleted.task]));
+    return deleted;
+  }
+
+  /**
+   * Move a task and its subtasks to another project, where they get the next
+   * free IDs. Dependencies inside the moved subtree are remapped; those on
+   * tasks left behind in the source project or in other projects are dropped.
+   * Fails if any task in the subtree is claimed by someone else.
+   */
+  moveTask(fromProject: string, taskId: string, toProject: string, opts: { force?: boolean } = {}): MoveResult {
+    fromProject = validateProjectName(fromProject);
+    toProject = validateProjectName(toProject);
+    if (fromProject === toProject) {
+      throw new Error(`Task #${taskId} is already in project '${fromProject}'`);
+    }
+
+    // Take both locks in a fixed order so two opposite moves can't deadlock
+    const [first, second] = [fromProject, toProject].sort();
+    let subtree: Task[] = [];
+    const result = this.withProjectLock(first, () => this.withProjectLock(second, (): MoveResult => {
+      const source = this.getProject(fromProject);
+      if (!source?.tasks.some(t => t.id === taskId)) {
+        throw new Error(`Task '${taskId}' not found in project '${fromProject}'`);
+      }
+
+      let droppedDependencies: string[] = [];
+      const unblocked = this.mutateProject(fromProject, data => {
+        const ids = new Set(subtreeIds(data.tasks, taskId));
+        for (const t of data.tasks.filter(t => ids.has(t.id))) {
+          this.checkClaim(fromProject, t, opts.force);
+        }
+        subtree = structuredClone(data.tasks.filter(t => ids.has(t.id)));
+        droppedDependencies = [...new Set(
+          subtree.flatMap(t => [...t.blockedBy, ...t.blocks]).filter(id => !ids.has(id))
+        )];
+
+        const external = this.resolveExternalTasks(data.tasks);
+        const unblocked = [...ids].flatMap(id => detachTask(data.tasks, id, external)).filter(id => !ids.has(id));
+        const root = data.tasks.find(t => t.id === taskId)!;
+        data.tasks = data.tasks.filter(t => !ids.has(t.id));
+        rollUpParents(data.tasks, root.parentId, {
+          task: root, unblocked, reblocked: [], parentsCompleted: [], parentsReopened: [],
+        });
+        this.editPlanItems(fromProject, item => ids.has(item.taskId) ? null : item);
+        return unblocked;
+      });
+
+      const idMap: Record<string, string> = {};
+      const task = this.mutateProject(toProject, data => {
+        for (const t of subtree) {
+          idMap[t.id] = allocateTaskId(data);
+        }
+
+        const moved = subtree.map(t => {
+          const copy: Task = {
+            ...t,
+            id: idMap[t.id],
+            blockedBy: t.blockedBy.filter(id => id in idMap).map(id => idMap[id]),
+            blocks: t.blocks.filter(id => id in idMap).map(id => idMap[id]),
+          };
+          setOrDelete(copy, "parentId", t.id !== taskId && t.parentId ? idMap[t.parentId] : null);
+          return copy;
+        });
+        data.tasks.push(...moved);
+
+        for (const t of moved) {
+          if (t.status === "blocked" && openBlockers(t, data.tasks).length === 0) {
+            t.status = "pending";
+          }
+        }
+        return moved[0];
+      }, { create: true });
+
+      return { task, oldId: taskId, idMap, unblocked, droppedDependencies };
+    }));
+
+    // Other projects are updated after both locks are released
+    result.unblocked.push(...this.unlinkExternal(fromProject, subtree));
+    return result;
+  }
+
+  /**
+   * Put a task right before its sibling `before` (same parent), or last
+   * among its siblings when `before` is omitted. Listings show tasks in
+   * this order; IDs don't change. Returns the siblings in their new order.
+   */
+  reorderTask(project: string, taskId: string, before?: string): Task[] {
+    project = validateProjectName(project);
+    return this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found in project '${project}'`);
+      }
+      const anchor = before !== undefined ? data.tasks.find(t => t.id === before) : undefined;
+      if (before !== undefined && !anchor) {
+        throw new Error(`Task '${before}' not found in project '${project}'`);
+      }
+      if (anchor && anchor.parentId !== task.parentId) {
+        throw new Error(`Task #${before} isn't a sibling of #${taskId} (tasks are ordered among their siblings)`);
+      }
+
+      if (anchor !== task) {
+        data.tasks.splice(data.tasks.indexOf(task), 1);
+        const siblings = data.tasks.filter(t => t.parentId === task.parentId);
+        const index = anchor
+          ? data.tasks.indexOf(anchor)
+          : siblings.length > 0 ? data.tasks.indexOf(siblings.at(-1)!) + 1 : data.tasks.length;
+        data.tasks.splice(index, 0, task);
+      }
+      return data.tasks.filter(t => t.parentId === task.parentId);
+    });
+  }
+
+  updateProjectStatus(project: string, status: TaskProject["status"]): TaskProject {
+    project = validateProjectName(project);
+    if (!["active", "paused", "completed"].includes(status)) {
+      throw new Error(`Invalid project status '${status}' (expected active, paused or completed)`);
+    }
+    return this.mutateProject(project, data => {
+      data.status = status;
+      const plan = this.getPlan(project);
+      if (plan !== null) {
+        this.savePlan(project, plan.replace(/^\*\*Status:\*\*.*$/m, `**Status:** ${status}`), plan);
+      }
+      return data;
+    });
+  }
+
+  updateTaskFields(project: string, taskId: string, fields: TaskFields, opts: { force?: boolean } = {}): Task {
+    project = validateProjectName(project);
+    return this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found in project '${project}'`);
+      }
+      this.checkClaim(project, task, opts.force);
+
+      applyTaskFields(task, fields);
+      return task;
+    });
+  }
+
+  /**
+   * Everything task_update can change, applied to one task in a single
+   * write: it's saved and logged as one change, or not at all if any part
+   * fails. Other projects are updated afterwards, as with setBlocker and
+   * updateTaskStatus.
+   */
+  updateTask(project: string, taskId: string, update: TaskUpdate): { task: Task; status?: StatusUpdateResult } {
+    project = validateProjectName(project);
+    const { status, subject, notes, comment, blockedBy, force, ...fields } = update;
+    if (subject !== undefined && !subject.trim()) {
+      throw new Error("Task subject must not be empty");
+    }
+    if (comment !== undefined && !comment.trim()) {
+      throw new Error("Comment must not be empty");
+    }
+    const blockerRefs = [...new Set((blockedBy ?? []).map(ref => normalizeTaskRef(ref, project)))];
+
+    let changed: string[] = [];
+    const result = this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found in project '${project}'`);
+      }
+      this.checkClaim(project, task, force);
+
+      if (subject !== undefined) {
+        task.subject = subject;
+      }
+      applyTaskFields(task, fields);
+      for (const blockerRef of blockerRefs) {
+        this.addBlocker(data, task, blockerRef);
+      }
+      let statusResult: StatusUpdateResult | undefined;
+      if (status) {
+        ({ result: statusResult, changed } = this.applyStatus(data, task, status));
+      }
+      if (notes !== undefined) {
+        task.notes = notes;
+      }
+      if (comment !== undefined) {
+        this.appendComment(task, comment);
+      }
+
+      // Last, so nothing reaches the plan if an earlier step throws
+      if (subject !== undefined) {
+        this.editPlanItems(project, item => item.taskId === taskId ? { ...item, text: subject } : item);
+      }
+      return { task, status: statusResult };
+    });
+
+    this.linkExternal(project, taskId, blockerRefs);
+    if (result.status) {
+      this.propagateStatus(project, changed, result.status);
+    }
+    return result;
+  }
+
+  /**
+   * Ready tasks (pending, no open blockers) across one project or all active
+   * projects, best candidate first.
+   */
+  getReadyTasks(project?: string): ReadyTask[] {
+    const projects = project
+      ? [this.getProject(validateProjectName(project))].filter((p): p is TaskProject => p !== null)
+      : this.getActiveProjects();
+    return rankReadyTasks(projects, this.resolveExternalTasks(projects.flatMap(p => p.tasks)));
+  }
+
+  /**
+   * Move a ready task to in_progress and, if this instance has a session,
+   * record it as the owner for a lease of `leaseMinutes`. The readiness check
+   * is repeated under the project lock, so two callers can never claim the
+   * same task. Claiming a task we already hold renews the lease; one whose
+   * lease expired can be claimed by anyone, and `force` takes over a live one.
+   */
+  claimTask(project: string, taskId: string, opts: { force?: boolean; leaseMinutes?: number } = {}): Task {
+    project = validateProjectName(project);
+    if (opts.leaseMinutes !== undefined && !(Number.isFinite(opts.leaseMinutes) && opts.leaseMinutes > 0)) {
+      throw new Error(`Invalid lease '${opts.leaseMinutes}' (expected a positive number of minutes)`);
+    }
+    return this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found in project '${project}'`);
+      }
+
+      const ours = this.session !== undefined && task.claim?.owner === this.session;
+      const expired = task.claim !== undefined && !isClaimActive(task.claim);
+      if (task.status === "in_progress" && !ours && !expired && !opts.force) {
+        if (task.claim) {
+          throw new TaskClaimedError(project, taskId, task.claim);
+        }
+        throw new Error(`Task #${taskId} in project '${project}' is not ready (status: ${task.status})`);
+      }
+      if (
+        task.status !== "in_progress" &&
+        (task.status !== "pending" || openBlockers(task, data.tasks, this.resolveExternalTasks([task])).length > 0)
+      ) {
+        throw new Error(`Task #${taskId} in project '${project}' is not ready (status: ${task.status})`);
+      }
+
+      task.status = "in_progress";
+      if (this.session) {
+        task.claim = this.newClaim(opts.leaseMinutes);
+      }
+      return task;
+    });
+  }
+
+  /**
+   * Give up a claim. An in-progress task goes back to pending, or blocked if
+   * it's waiting on something. Only the owner can release a live claim
+   * unless `force` is set.
+   */
+  releaseTask(project: string, taskId: string, opts: { force?: boolean } = {}): Task {
+    project = validateProjectName(project);
+    return this.mutateProject(project, data => {
+      const task = data.tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error(`Task '${taskId}' not found in project '${project}'`);
+      }
+      if (!task.claim) {
+        throw new Error(`Task #${taskId} in project '${project}' is not claimed`);
+      }
+      if (isClaimActive(task.claim) && task.claim.owner !== this.session && !opts.force) {
+        throw new TaskClaimedError(project, taskId, task.claim);
+      }
+
+      delete task.claim;
+      if (task.status === "in_progress") {
+        task.status = openBlockers(task, data.tasks, this.resolveExternalTasks([task])).length > 0 ? "blocked" : "pending";
+      }
+      return task;
+    });
+  }
+
+  /**
+   * Drop every expired claim in active projects. Their tasks, if still in
+   * progress, go back to pending (or blocked) so someone else can pick them
+   * up. Returns the released tasks.
+   */
+  releaseExpiredClaims(): Array<{ project: string; task: Task }> {
+    const released: Array<{ project: string; task: Task }> = [];
+    for (const data of this.getActiveProjects()) {
+      if (!data.tasks.some(t => t.claim && !isClaimActive(t.claim))) continue;
+      this.mutateProject(data.project, fresh => {
+        const external = this.resolveExternalTasks(fresh.tasks);
+        for (const task of fresh.tasks) {
+          if (!task.claim || isClaimActive(task.claim)) continue;
+          delete task.claim;
+          if (task.status === "in_progress") {
+            task.status = openBlockers(task, fresh.tasks, external).length > 0 ? "blocked" : "pending";
+          }
+          released.push({ project: data.project, task });
+        }
+      });
+    }
+    return released;
+  }
+
+  private newClaim(leaseMinutes = this.leaseMinutes): TaskClaim {
+    const now = Date.now();
+    return {
+      owner: this.session!,
+      at: new Date(now).toISOString(),
+      expires: new Date(now + leaseMinutes * 60_000).toISOString(),
+    };
+  }
+
+  /**
+   * Throw unless this instance may change `task`: it isn't claimed, the claim
+   * expired, we own it (which renews the lease), or `force` is set.
+   */
+  private checkClaim(project: string, task: Task, force?: boolean): void {
+    if (!task.claim || !isClaimActive(task.claim)) {
+      return;
+    }
+    if (task.claim.owner === this.session) {
+      task.claim.expires = this.newClaim().expires;
+    } else if (!force) {
+      throw new TaskClaimedError(project, task.id, task.claim);
+    }
+  }
+
+  /**
+   * Pick the best ready task and optionally claim it. If another writer
+   * claims the top candidate first, fall through to the next one.
+   */
+  nextTask(project?: string, opts: { claim?: boolean } = {}): ReadyTask | null {
+    if (opts.claim) {
+      this.releaseExpiredClaims();
+    }
+    for (const candidate of this.getReadyTasks(project)) {
+      if (!opts.claim) {
+        return candidate;
+      }
+      try {
+        return { ...candidate, task: this.claimTask(candidate.project, candidate.task.id) };
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  getProjectStats(project: string, opts: { days?: number } = {}): ProjectStats {
+    project = validateProjectName(project);
+    const data = this.getProject(project);
+    if (!data) {
+      throw new Error(`Project '${project}' not found`);
+    }
+    return computeProjectStats(data, this.backend.readEvents(project), {
+      days: opts.days,
+      external: this.resolveExternalTasks(data.tasks),
+    });
+  }
+
+  /**
+   * Stale, stuck, abandoned and waiting tasks (see findStaleTasks) in one
+   * project or all active projects.
+   */
+  getStaleTasks(project?: string, options: Partial<StaleOptions> = {}): StaleTask[] {
+    const projects = project
+      ? [this.getProject(validateProjectName(project))].filter((p): p is TaskProject => p !== null)
+      : this.getActiveProjects();
+    return findStaleTasks(projects, options, this.resolveExternalTasks(projects.flatMap(p => p.tasks)));
+  }
+
+  /**
+   * Search tasks and plans in one project, or in every project whose status
+   * matches `projectStatus` (all projects by default).
+   */
+  search(query: string, opts: SearchOptions = {}): SearchHit[] {
+    const names = opts.project
+      ? [validateProjectName(opts.project)]
+      : this.backend.listProjects(opts.projectStatus);
+    const projects = names
+      .map(name => this.tryGetProject(name))
+      .filter((data): data is TaskProject => data !== null)
+      .filter(data => !opts.projectStatus || data.status === opts.projectStatus)
+      .map(data => ({ data, plan: this.getPlan(data.project) }));
+    if (opts.includeArchived) {
+      for (const name of opts.project ? names : this.listArchivedProjects()) {
+        const entry = this.tryReadArchive(name);
+        if (entry && (!opts.projectStatus || entry.data.status === opts.projectStatus)) {
+          projects.push({ data: entry.data, plan: entry.plan });
+        }
+      }
+    }
+    return searchProjects(projects, query, opts);
+  }
+
+  /**
+   * Check a project's dependency graph for cycles, dangling IDs and
+   * `blocks`/`blockedBy` asymmetry. With `repair`, fix what was found.
+   */
+  checkDependencies(project: string, opts: { repair?: boolean } = {}): DependencyIssue[] {
+    project = validateProjectName(project);
+    if (!opts.repair) {
+      const data = this.getProject(project);
+      if (!data) {
+        throw new Error(`Project '${project}' not found`);
+      }
+      return findDependencyIssues(data.tasks, this.resolveExternalTasks(data.tasks));
+    }
+    return this.mutateProject(project, data => repairDependencies(data.tasks, this.resolveExternalTasks(data.tasks)));
+  }
+
+  // --------------------------------------------------------------------------
+  // Cross-Project Dependencies
+  // --------------------------------------------------------------------------
+
+  /**
+   * Every task in another project that `tasks` reference, keyed by qualified
+   * reference. Unknown tasks and unreadable projects are left out.
+   */
+  resolveExternalTasks(tasks: Array<Pick<Task, "blockedBy" | "blocks">>): ExternalTasks {
+    const external: ExternalTasks = new Map();
+    const projects = new Map<string, TaskProject | null>();
+    for (const ref of tasks.flatMap(t => [...t.blockedBy, ...t.blocks])) {
+      const parsed = parseTaskRef(ref);
+      if (!parsed || external.has(ref)) continue;
+      if (!projects.has(parsed.project)) {
+        projects.set(parsed.project, isValidProjectName(parsed.project) ? this.tryGetProject(parsed.project) : null);
+      }
+      const task = projects.get(parsed.project)?.tasks.find(t => t.id === parsed.taskId);
+      if (task) {
+        external.set(ref, task);
+      }
+    }
+    return external;
+  }
+
+  /**
+   * Add `project#taskId` to the `blocks` list of each blocker that lives in
+   * another project.
+   */
+  private linkExternal(project: string, taskId: string, blockerRefs: string[]): void {
+    for (const ref of blockerRefs) {
+      const parsed = parseTaskRef(ref);
+      if (!parsed) continue;
+      this.mutateProject(parsed.project, data => {
+        const blocker = data.tasks.find(t => t.id === parsed.taskId);
+        if (blocker && !blocker.blocks.includes(`${project}#${taskId}`)) {
+          blocker.blocks.push(`${project}#${taskId}`);
+        }
+      });
+    }
+  }
+
+  /**
+   * Tasks in `project` whose completion just changed may unblock or re-block
+   * dependents in other projects. Those are updated here, one project at a
+   * time after the source project is saved, and added to `result`.
+   */
+  private propagateStatus(project: string, taskIds: string[], result: StatusUpdateResult): void {
+    const data = this.getProject(project);
+    const dependents = new Map<string, Set<string>>();
+    for (const task of data?.tasks.filter(t => taskIds.includes(t.id)) ?? []) {
+      for (const parsed of task.blocks.map(parseTaskRef)) {
+        if (!parsed) continue;
+        dependents.set(parsed.project, (dependents.get(parsed.project) ?? new Set()).add(parsed.taskId));
+      }
+    }
+
+    for (const [other, ids] of dependents) {
+      if (!this.tryGetProject(other)) continue;
+      this.mutateProject(other, otherData => {
+        const external = this.resolveExternalTasks(otherData.tasks);
+        for (const dependent of otherData.tasks.filter(t => ids.has(t.id) && t.status !== "completed")) {
+          const waiting = openBlockers(dependent, otherData.tasks, external).length > 0;
+          if (!waiting && dependent.status === "blocked") {
+            dependent.status = "pending";
+            result.unblocked.push(`${other}#${dependent.id}`);
+          } else if (waiting && dependent.status !== "blocked") {
+            dependent.status = "blocked";
+            result.reblocked.push(
+              ...[dependent.id, ...reblockDependents(otherData.tasks, dependent.id)].map(id => `${other}#${id}`)
+            );
+          }
+        }
+      });
+    }
+  }
+
+  /**
+   * Drop references from other projects to `removed` tasks of `project`
+   * (deleted or moved away). Returns the dependents there that no longer have
+   * an open blocker, as qualified references.
+   */
+  private unlinkExternal(project: string, removed: Task[]): string[] {
+    const gone = new Set(removed.map(t => `${project}#${t.id}`));
+    const others = new Set(
+      removed.flatMap(t => [...t.blockedBy, ...t.blocks]).map(parseTaskRef).flatMap(ref => ref ? [ref.project] : [])
+    );
+
+    const unblocked: string[] = [];
+    for (const other of others) {
+      if (!this.tryGetProject(other)) continue;
+      this.mutateProject(other, data => {
+        const external = this.resolveExternalTasks(data.tasks);
+        for (const t of data.tasks) {
+          const waited = t.blockedBy.some(id => gone.has(id));
+          t.blockedBy = t.blockedBy.filter(id => !gone.has(id));
+          t.blocks = t.blocks.filter(id => !gone.has(id));
+          if (waited && t.status === "blocked" && openBlockers(t, data.tasks, external).length === 0) {
+            t.status = "pending";
+            unblocked.push(`${other}#${t.id}`);
+          }
+        }
+      });
+    }
+    return unblocked;
+  }
+
+  // --------------------------------------------------------------------------
+  // Activity Log
+  // --------------------------------------------------------------------------
+
+  /**
+   * Logged changes for a project or one of its tasks, oldest first, limited
+   * to the most recent `limit`.
+   */
+  getHistory(project: string, opts: { taskId?: string; limit?: number } = {}): TaskEvent[] {
+    project = validateProjectName(project);
+    const events = this.backend.readEvents(project).filter(e => opts.taskId === undefined || e.taskId === opts.taskId);
+    return opts.limit !== undefined ? events.slice(-opts.limit) : events;
+  }
+
+  /**
+   * Revert the last `count` changes in the activity log, newest first.
+   * Changes that were already undone, and undos themselves, are skipped.
+   * Nothing is written if a task no longer matches what the log says the
+   * change left behind (e.g. the file was edited by hand since).
+   */
+  undo(project: string, count = 1): TaskEvent[] {
+    project = validateProjectName(project);
+    return this.withProjectLock(project, () => {
+      const events = this.backend.readEvents(project);
+      const undone = new Set(events.flatMap(e => e.undoes ?? []));
+      const changes: string[] = [];
+      for (let i = events.length - 1; i >= 0 && changes.length < count; i--) {
+        const { change, undoes } = events[i];
+        if (!undoes && !undone.has(change) && !changes.includes(change)) {
+          changes.push(change);
+        }
+      }
+      if (changes.length === 0) {
+        throw new Error(`Nothing to undo in project '${project}'`);
+      }
+
+      const reverted = changes.flatMap(change => events.filter(e => e.change === change).reverse());
+      this.mutateProject(project, data => {
+        for (const event of reverted) {
+          const index = data.tasks.findIndex(t => t.id === event.taskId);
+          if (!sameTaskState(index >= 0 ? data.tasks[index] : null, event.after)) {
+            throw new Error(`Can't undo: task #${event.taskId} has changed since ${event.at}`);
+          }
+          if (!event.before) {
+            data.tasks.splice(index, 1);
+          } else if (index >= 0) {
+            data.tasks[index] = event.before;
+          } else {
+            insertTaskInOrder(data.tasks, event.before);
+          }
+        }
+      }, { undoes: changes });
+      return reverted;
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Export / Import
+  // --------------------------------------------------------------------------
+
+  /**
+   * Everything needed to recreate the workspace on any backend. Fails on a
+   * corrupted project rather than leave it out.
+   */
+  exportProjects(): ExportBundle {
+    return {
+      format: EXPORT_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      projects: this.listProjects().map(project => this.withProjectLock(project, () => ({
+        data: this.getProject(project)!,
+        events: this.backend.readEvents(project),
+        plan: this.getPlan(project),
+      }))),
+    };
+  }
+
+  /**
+   * Load an export as is, keeping timestamps and activity logs. Projects
+   * that already exist are skipped unless `overwrite` is set.
+   */
+  importProjects(bundle: unknown, opts: { overwrite?: boolean } = {}): ImportReport[] {
+    const { format, projects } = (bundle ?? {}) as Partial<ExportBundle>;
+    if (format !== EXPORT_FORMAT || !Array.isArray(projects)) {
+      throw new Error(`Not a tasks export (expected format '${EXPORT_FORMAT}')`);
+    }
+
+    return projects.map(entry => {
+      let project = String((entry?.data as Partial<TaskProject> | undefined)?.project ?? "(unnamed)");
+      try {
+        const { data } = migrateProjectData(structuredClone(entry.data));
+        project = data.project = validateProjectName(data.project);
+        return this.withProjectLock(project, () => {
+          if (!opts.overwrite && this.backend.readProject(project) !== null) {
+            return { project, imported: false, reason: "already exists" };
+          }
+          this.backend.writeProject(data);
+          this.onWrite(project, "tasks", this.backend.readProject(project) ?? "");
+          this.backend.replaceEvents(project, Array.isArray(entry.events) ? entry.events : []);
+          if (typeof entry.plan === "string") {
+            this.writePlan(project, entry.plan);
+          }
+          return { project, imported: true };
+        });
+      } catch (err) {
+        return { project, imported: false, reason: err instanceof Error ? err.message : String(err) };
+      }
+    });
+  }
+
+  /**
+   * Create tasks for TODO comments or checklist items, with `Source:
+   * file:line` in their notes. Re-running matches items to the tasks already
+   * imported (same file and text) instead of duplicating them: moved items get
+   * their line updated and checked items complete their task. With
+   * `completeMissing`, imported tasks from files in `scope` whose item is gone
+   * are completed.
+   */
+  importSourceItems(
+    project: string,
+    items: SourceItem[],
+    opts: { scope?: string; completeMissing?: boolean } = {},
+  ): SourceImportResult {
+    project = validateProjectName(project);
+    const result: SourceImportResult = { created: [], updated: [], completed: [], unchanged: 0 };
+
+    const imported = new Map<string, Task>();
+    for (const task of this.getProject(project)?.tasks ?? []) {
+      const source = parseTaskSource(task.notes);
+      if (source) {
+        imported.set(sourceKey(source.file, task.subject), task);
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const item of items) {
+      const key = sourceKey(item.file, item.text);
+      // The same text twice in one file is one task
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      let task = imported.get(key);
+      if (!task) {
+        task = this.addTask(project, item.text, { notes: formatTaskSource(item), tags: item.tag ? [item.tag] : undefined });
+        result.created.push(task);
+      } else if (parseTaskSource(task.notes)!.line !== item.line) {
+        this.updateTaskNotes(project, task.id, task.notes.replace(SOURCE_NOTE_PATTERN, formatTaskSource(item)));
+        result.updated.push(task);
+      } else if (!item.done || task.status === "completed") {
+        result.unchanged++;
+      }
+
+      if (item.done && task.status !== "completed") {
+        result.completed.push(this.updateTaskStatus(project, task.id, "completed").task);
+      }
+    }
+
+    if (opts.completeMissing && opts.scope !== undefined) {
+      for (const [key, task] of imported) {
+        const file = parseTaskSource(task.notes)!.file;
+        if (seen.has(key) || task.status === "completed" || !inSourceScope(file, opts.scope)) continue;
+        result.completed.push(this.updateTaskStatus(project, task.id, "completed").task);
+      }
+    }
+    return result;
+  }
+
+  // --------------------------------------------------------------------------
+  // Archive
+  // --------------------------------------------------------------------------
+
+  private archivePath(project: string): string {
+    return containedPath(this.archiveDir, project, ".json");
+  }
+
+  listArchivedProjects(): string[] {
+    try {
+      return fs.readdirSync(this.archiveDir)
+        .filter(f => f.endsWith(".json"))
+        .map(f => f.slice(0, -".json".length))
+        .filter(isValidProjectName)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * An archived project with its activity log and plan, or null if it isn't
+   * archived. Throws ArchiveCorruptedError if the file can't be read back.
+   */
+  private readArchive(project: string): ExportBundle["projects"][number] | null {
+    const archivePath = this.archivePath(validateProjectName(project));
+    let content: string;
+    try {
+      content = fs.readFileSync(archivePath, "utf-8");
+    } catch {
+      return null;
+    }
+
+    try {
+      const bundle = JSON.parse(content) as Partial<ExportBundle>;
+      const entry = Array.isArray(bundle.projects) ? bundle.projects[0] : undefined;
+      if (bundle.format !== EXPORT_FORMAT || !entry) {
+        throw new Error(`not a tasks export (expected format '${EXPORT_FORMAT}')`);
+      }
+      return {
+        data: migrateProjectData(entry.data).data,
+        events: Array.isArray(entry.events) ? entry.events : [],
+        plan: typeof entry.plan === "string" ? entry.plan : null,
+      };
+    } catch (err) {
+      throw new ArchiveCorruptedError(project, archivePath, err);
+    }
+  }
+
+  // Like readArchive, but a corrupted archive is reported and reads as null
+  private tryReadArchive(project: string): ExportBundle["projects"][number] | null {
+    try {
+      return this.readArchive(project);
+    } catch (err) {
+      if (err instanceof ArchiveCorruptedError) {
+        this.warn(`${err.message}; skipped`);
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  getArchivedProject(project: string): TaskProject | null {
+    return this.tryReadArchive(project)?.data ?? null;
+  }
+
+  /**
+   * Move a completed project, with its activity log and plan, out of the
+   * workspace into `{archiveDir}/{project}.json`, a one-project export.
+   * Other statuses need `force`.
+   */
+  archiveProject(project: string, opts: { force?: boolean } = {}): TaskProject {
+    project = validateProjectName(project);
+    return this.withProjectLock(project, () => {
+      const data = this.getProject(project);
+      if (!data) {
+        throw new Error(`Project '${project}' not found`);
+      }
+      if (data.status !== "completed" && !opts.force) {
+        throw new Error(`Project '${project}' is ${data.status}; only completed projects are archived unless forced`);
+      }
+      if (fs.existsSync(this.archivePath(project))) {
+        throw new Error(`Project '${project}' is already archived; restore or remove ${this.archivePath(project)} first`);
+      }
+
+      const bundle: ExportBundle = {
+        format: EXPORT_FORMAT,
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        projects: [{ data, events: this.backend.readEvents(project), plan: this.getPlan(project) }],
+      };
+      fs.mkdirSync(this.archiveDir, { recursive: true });
+      writeFileAtomic(this.archivePath(project), JSON.stringify(bundle, null, 2));
+      this.backend.deleteProject(project);
+      fs.rmSync(this.planPath(project), { force: true });
+      return data;
+    });
+  }
+
+  // Bring an archived project back, as it was archived
+  restoreProject(project: string): TaskProject {
+    project = validateProjectName(project);
+    const entry = this.readArchive(project);
+    if (!entry) {
+      throw new Error(`Project '${project}' is not archived`);
+    }
+    const [report] = this.importProjects({
+      format: EXPORT_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      projects: [entry],
+    });
+    if (!report?.imported) {
+      throw new Error(`Can't restore project '${project}': ${report?.reason ?? "empty archive"}`);
+    }
+    fs.rmSync(this.archivePath(project), { force: true });
+    return this.getProject(project)!;
+  }
+
+  /**
+   * Archive every completed project that hasn't changed for `days` days.
+   * Returns the projects archived.
+   */
+  archiveCompletedProjects(days: number, now = Date.now()): string[] {
+    const archived: string[] = [];
+    for (const project of this.backend.listProjects("completed")) {
+      if (fs.existsSync(this.archivePath(project))) continue;
+      const data = this.tryGetProject(project);
+      if (data?.status === "completed" && now - Date.parse(data.updated) >= days * DAY_MS) {
+        this.archiveProject(project);
+        archived.push(project);
+      }
+    }
+    return archived;
+  }
+
+  /**
+   * Hide finished work from task listings: completed tasks whose parent (if
+   * any) is completed too are marked archived. They stay in the project, so
+   * dependencies and history are unaffected.
+   */
+  archiveTasks(project: string): Task[] {
+    project = validateProjectName(project);
+    return this.mutateProject(project, data => {
+      const archived: Task[] = [];
+      const now = new Date().toISOString();
+      for (const task of data.tasks) {
+        const parent = task.parentId ? data.tasks.find(t => t.id === task.parentId) : undefined;
+        if (task.status === "completed" && !task.archivedAt && (!parent || parent.status === "completed")) {
+          task.archivedAt = now;
+          archived.push(task);
+        }
+      }
+      return archived;
+    });
+  }
+
+  // Unarchive the given tasks, or every archived task in the project
+  restoreTasks(project: string, taskIds?: string[]): Task[] {
+    project = validateProjectName(project);
+    return this.mutateProject(project, data => {
+      const restored = data.tasks.filter(t => t.archivedAt && (!taskIds || taskIds.includes(t.id)));
+      for (const task of restored) {
+        delete task.archivedAt;
+      }
+      return restored;
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Plans
+  // --------------------------------------------------------------------------
+
+  getPlan(project: string): string | null {
+    project = validateProjectName(project);
+    try {
+      return fs.readFileSync(this.planPath(project), "utf-8");
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write a plan edited from `base`, the content it was read as. Sections
+   * changed on disk since then are kept; a section changed on both sides
+   * throws ProjectConflictError.
+   */
+  private savePlan(project: string, content: string, base: string | null): void {
+    const current = this.getPlan(project);
+    if (current !== null && current !== base) {
+      const { merged, conflicts } = mergePlans(base ?? "", content, current);
+      if (conflicts.length > 0) {
+        throw new ProjectConflictError(project, conflicts);
+      }
+      content = merged;
+    }
+
+    const today = new Date().toISOString().split("T")[0];
+    content = content.replace(/^\*\*Last Updated:\*\*.*$/m, `**Last Updated:** ${today}`);
+    if (content !== current) {
+      this.writePlan(project, content);
+    }
+  }
+
+  /**
+   * Replace whole sections of the plan. When Phases changes, its checklist is
+   * reconciled with the task list so new checkboxes become tasks. Replacing
+   * Notes keeps the checkpoint blocks it held unless the new text has them.
+   */
+  updatePlan(project: string, sections: PlanSectionUpdate): PlanSyncResult {
+    project = validateProjectName(project);
+    return this.withProjectLock(project, () => {
+      if (!this.getProject(project)) {
+        this.createProject(project);
+      }
+
+      const plan = this.getPlan(project);
+      const doc = parsePlan(plan ?? `# ${project}\n`);
+      const checkpoints = parseCheckpoints(project, getPlanSection(doc, "Notes") ?? "");
+      for (const name of PLAN_SECTIONS) {
+        let body = sections[name.toLowerCase() as keyof PlanSectionUpdate];
+        if (body !== undefined && name === "Notes") {
+          const sessions = new Set(parseCheckpoints(project, body).map(c => c.session));
+          body = checkpoints.filter(c => !sessions.has(c.session)).reduce(setCheckpoint, body);
+        }
+        if (body !== undefined) {
+          setPlanSection(doc, name, body);
+        }
+      }
+      this.savePlan(project, renderPlan(doc), plan);
+
+      if (sections.phases !== undefined) {
+        return this.syncTasksFromPlan(project);
+      }
+      return { created: [], completed: [], reopened: [], errors: [] };
+    });
+  }
+
+  /**
+   * Record where `session`'s work stood in the plan's Notes, replacing its
+   * previous checkpoint; other sessions' checkpoints are kept. Lists the
+   * in-progress tasks it holds or changed, with their latest notes, and the
+   * tasks it changed since its previous checkpoint. Returns null, writing
+   * nothing, when there are none.
+   */
+  saveCheckpoint(project: string, session?: string): Checkpoint | null {
+    project = validateProjectName(project);
+    return this.withProjectLock(project, () => {
+      const data = this.getProject(project);
+      if (!data) {
+        throw new Error(`Project '${project}' not found`);
+      }
+
+      const previous = this.getCheckpoint(project, session);
+      const events = this.backend.readEvents(project);
+      const start = previous?.lastChange
+        ? events.findLastIndex(e => e.change === previous.lastChange) + 1
+        : 0;
+      const at = new Date().toISOString();
+      const body = formatCheckpoint(data, events.slice(start).filter(e => e.session === session), session, at);
+      if (body === null) {
+        return null;
+      }
+
+      const checkpoint: Checkpoint = { project, at, session, lastChange: events.at(-1)?.change, body };
+      const plan = this.getPlan(project);
+      const doc = parsePlan(plan ?? `# ${project}\n`);
+      setPlanSection(doc, "Notes", setCheckpoint(getPlanSection(doc, "Notes") ?? "", checkpoint));
+      this.savePlan(project, renderPlan(doc), plan);
+      return checkpoint;
+    });
+  }
+
+  getCheckpoint(project: string, session?: string): Checkpoint | null {
+    const plan = this.getPlan(project);
+    const notes = plan === null ? null : getPlanSection(parsePlan(plan), "Notes");
+    return notes === null
+      ? null
+      : parseCheckpoints(validateProjectName(project), notes).find(c => c.session === session) ?? null;
+  }
+
+  /**
+   * Plan → tasks: every `- [ ]` item under Phases is linked to a task via a
+   * trailing `<!-- task:ID -->` marker. Unlinked items create tasks unless
+   * `createTasks` is false, and the checkbox state drives the linked task's
+   * completion.
+   */
+  syncTasksFromPlan(project: string, opts: { createTasks?: boolean } = {}): PlanSyncResult {
+    project = validateProjectName(project);
+    return this.withProjectLock(project, () => this.syncTasksFromPlanLocked(project, opts.createTasks !== false));
+  }
+
+  /**
+   * Catch up after `file` was edited by hand: ticked or unticked plan items
+   * complete or reopen their tasks, and task status changes tick the plan.
+   * Unlinked plan items are left for an explicit sync, so a fresh plan's
+   * placeholder steps don't turn into tasks.
+   */
+  reconcileExternalEdit(project: string, file: "tasks" | "plan"): PlanSyncResult {
+    project = validateProjectName(project);
+    return this.withProjectLock(project, () => {
+      const data = this.getProject(project);
+      if (!data) {
+        return { created: [], completed: [], reopened: [], errors: [] };
+      }
+      if (file === "plan") {
+        return this.syncTasksFromPlanLocked(project, false);
+      }
+      this.syncPlanFromTasks(data);
+      return { created: [], completed: [], reopened: [], errors: [] };
+    });
+  }
+
+  private syncTasksFromPlanLocked(project: string, createTasks: boolean): PlanSyncResult {
+    const result: PlanSyncResult = { created: [], completed: [], reopened: [], errors: [] };
+    const content = this.getPlan(project);
+    if (content === null) {
+      return result;
+    }
+
+    const doc = parsePlan(content);
+    const phases = getPlanSection(doc, "Phases");
+    if (phases === null) {
+      return result;
+    }
+
+    // Nothing to create, complete or reopen: leave the task file alone
+    const existing = this.getProject(project);
+    const pending = phases.split("\n").map(parseChecklistItem).some(item => {
+      const task = item?.taskId ? existing?.tasks.find(t => t.id === item.taskId) : undefined;
+      return task ? item!.checked !== (task.status === "completed") : item !== null && createTasks;
+    });
+    if (!pending) {
+      return result;
+    }
+
+    // One change for the whole sync, so a single undo reverts it
+    const cascades = this.mutateProject(project, data => {
+      const statusChanges: Array<{ task: Task; status: TaskStatus }> = [];
+      const lines = phases.split("\n").map(line => {
+        const item = parseChecklistItem(line);
+        if (!item) {
+          return line;
+        }
+
+        let task = item.taskId ? data.tasks.find(t => t.id === item.taskId) : undefined;
+        if (!task && !createTasks) {
+          return line;
+        }
+        if (!task) {
+          task = this.insertTask(data, item.text, {});
+          result.created.push(task);
+        }
+
+        if (item.checked && task.status !== "completed") {
+          statusChanges.push({ task, status: "completed" });
+        } else if (!item.checked && task.status === "completed") {
+          statusChanges.push({ task, status: "pending" });
+        }
+
+        return formatChecklistItem({ ...item, taskId: task.id });
+      });
+
+      const cascades: Array<{ result: StatusUpdateResult; changed: string[] }> = [];
+      for (const { task, status } of statusChanges) {
+        try {
+          cascades.push(this.applyStatus(data, task, status));
+          (status === "completed" ? result.completed : result.reopened).push(task.id);
+        } catch (err) {
+          result.errors.push(err instanceof Error ? err.message : String(err));
+        }
+      }
+
+      setPlanSection(doc, "Phases", lines.join("\n"));
+      this.savePlan(project, renderPlan(doc), content);
+      return cascades;
+    }, { create: true });
+
+    for (const { result: statusResult, changed } of cascades) {
+      this.propagateStatus(project, changed, statusResult);
+    }
+    return result;
+  }
+
+  /**
+   * Tasks → plan: tick or untick linked checkboxes to match task status.
+   */
+  private syncPlanFromTasks(data: TaskProject): void {
+    this.editPlanItems(data.project, item => {
+      const task = data.tasks.find(t => t.id === item.taskId);
+      return task ? { ...item, checked: task.status === "completed" } : item;
+    });
+  }
+
+  /**
+   * Rewrite the linked checklist items under Phases. `edit` returns the new
+   * item, or null to drop the line.
+   */
+  private editPlanItems(project: string, edit: (item: ChecklistItem & { taskId: string }) => ChecklistItem | null): void {
+    const content = this.getPlan(project);
+    if (content === null) {
+      return;
+    }
+
+    const doc = parsePlan(content);
+    const phases = getPlanSection(doc, "Phases");
+    if (phases === null) {
+      return;
+    }
+
+    let changed = false;
+    const lines: string[] = [];
+    for (const line of phases.split("\n")) {
+      const item = parseChecklistItem(line);
+      if (!item?.taskId) {
+        lines.push(line);
+        continue;
+      }
+      const edited = edit(item as ChecklistItem & { taskId: string });
+      const replacement = edited ? formatChecklistItem(edited) : null;
+      if (replacement !== line) {
+        changed = true;
+      }
+      if (replacement !== null) {
+        lines.push(replacement);
+      }
+    }
+
+    if (changed) {
+      setPlanSection(doc, "Phases", lines.join("\n"));
+      this.savePlan(project, renderPlan(doc), content);
+    }
+  }
+}
+
+// ============================================================================
+// Task Fields
+// ============================================================================
+
+const TASK_STATUSES: TaskStatus[] = ["pending", "in_progress", "blocked", "completed"];
+
+const TASK_PRIORITIES: TaskPriority[] = ["low", "normal", "high", "urgent"];
+
+const DEFAULT_LEASE_MINUTES = 30;
+
+const PrioritySchema = Type.Union(TASK_PRIORITIES.map(p => Type.Literal(p)), {
+  description: "Priority: low, normal, high or urgent",
+});
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Validate and apply `fields` to `task`. Undefined fields are left alone,
+ * null removes the field.
+ */
+function applyTaskFields(task: Task, fields: TaskFields): void {
+  if (fields.priority !== undefined) {
+    if (fields.priority !== null && !TASK_PRIORITIES.includes(fields.priority)) {
+      throw new Error(`Invalid priority '${fields.priority}' (expected ${TASK_PRIORITIES.join(", ")})`);
+    }
+    setOrDelete(task, "priority", fields.priority);
+  }
+
+  if (fields.tags !== undefined) {
+    const tags = [...new Set((fields.tags ?? []).map(t => t.trim()).filter(Boolean))];
+    setOrDelete(task, "tags", tags.length > 0 ? tags : null);
+  }
+
+  if (fields.assignee !== undefined) {
+    setOrDelete(task, "assignee", fields.assignee?.trim() || null);
+  }
+
+  if (fields.due !== undefined) {
+    if (fields.due !== null && !isValidDate(fields.due)) {
+      throw new Error(`Invalid due date '${fields.due}' (expected YYYY-MM-DD)`);
+    }
+    setOrDelete(task, "due", fields.due);
+  }
+
+  if (fields.estimate !== undefined) {
+    if (fields.estimate !== null && !(Number.isFinite(fields.estimate) && fields.estimate >= 0)) {
+      throw new Error(`Invalid estimate '${fields.estimate}' (expected a non-negative number of hours)`);
+    }
+    setOrDelete(task, "estimate", fields.estimate);
+  }
+}
+
+function setOrDelete<K extends keyof Task>(task: Task, key: K, value: Task[K] | null): void {
+  if (value === null) {
+    delete task[key];
+  } else {
+    task[key] = value;
+  }
+}
+
+function priorityRank(task: Task): number {
+  return TASK_PRIORITIES.indexOf(task.priority ?? "normal");
+}
+
+function matchesFilter(task: Task, filter: TaskFilter): boolean {
+  return (
+    (!filter.status || task.status === filter.status) &&
+    (!filter.priority || (task.priority ?? "normal") === filter.priority) &&
+    (!filter.tag || (task.tags ?? []).some(t => t.toLowerCase() === filter.tag!.toLowerCase())) &&
+    (!filter.assignee || task.assignee?.toLowerCase() === filter.assignee.toLowerCase()) &&
+    (!filter.dueBefore || (task.due !== undefined && task.due <= filter.dueBefore))
+  );
+}
+
+function isClaimActive(claim: TaskClaim, now = Date.now()): boolean {
+  return Date.parse(claim.expires) > now;
+}
+
+function hasFilter(filter: TaskFilter): boolean {
+  return Object.values(filter).some(v => v !== undefined && v !== "");
+}
+
+// ============================================================================
+// Dependency Graph
+// ============================================================================
+
+type DependencyIssue = {
+  kind: "self" | "dangling" | "asymmetric" | "cycle" | "stuck" | "parent";
+  taskId: string;
+  message: string;
+  relatedId?: string;
+  cycle?: string[];
+};
+
+/**
+ * Tasks in other projects, keyed by qualified reference (`api#4`).
+ */
+type ExternalTasks = Map<string, Task>;
+
+/**
+ * Split a qualified reference like `api#4` into project and task ID. Plain
+ * IDs refer to a task in the same project and return null.
+ */
+function parseTaskRef(ref: string): { project: string; taskId: string } | null {
+  const hash = ref.indexOf("#");
+  return hash > 0 ? { project: ref.slice(0, hash), taskId: ref.slice(hash + 1) } : null;
+}
+
+function isExternalRef(id: string): boolean {
+  return parseTaskRef(id) !== null;
+}
+
+/**
+ * Canonical form of a user-supplied blocker reference: `#4` and `4` are local,
+ * `API#4` names project `api`, and a reference to `project` itself is local.
+ */
+function normalizeTaskRef(ref: string, project: string): string {
+  const trimmed = ref.trim().replace(/^#/, "");
+  const parsed = parseTaskRef(trimmed);
+  if (!parsed) {
+    return trimmed;
+  }
+  const refProject = validateProjectName(parsed.project);
+  return refProject === project ? parsed.taskId : `${refProject}#${parsed.taskId}`;
+}
+
+/**
+ * Shortest chain of `blockedBy` edges from `from` to `to`, following
+ * references into other projects. Everything is a qualified reference;
+ * `lookup` resolves one to its task.
+ */
+function findBlockerPath(lookup: (ref: string) => Task | undefined, from: string, to: string): string[] | null {
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const ref = queue.shift()!;
+    if (ref === to) {
+      const chain = [ref];
+      for (let cur = ref; cur !== from; ) {
+        cur = previous.get(cur)!;
+        chain.unshift(cur);
+      }
+      return chain;
+    }
+    const project = parseTaskRef(ref)!.project;
+    for (const id of lookup(ref)?.blockedBy ?? []) {
+      const next = isExternalRef(id) ? id : `${project}#${id}`;
+      if (!previous.has(next)) {
+        previous.set(next, ref);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Declared blockers of `task` that are not completed yet. References to other
+ * projects are looked up in `external`; unknown blockers never count as open.
+ */
+function openBlockers(task: Task, tasks: Task[], external: ExternalTasks = new Map()): string[] {
+  return task.blockedBy.filter(id => {
+    const blocker = isExternalRef(id) ? external.get(id) : tasks.find(t => t.id === id);
+    return blocker !== undefined && blocker.status !== "completed";
+  });
+}
+
+/**
+ * After `taskId` is reopened, walk its dependents transitively and move every
+ * one that isn't completed back to blocked. Completed dependents stop the walk.
+ * Returns the IDs whose status changed.
+ */
+function reblockDependents(tasks: Task[], taskId: string): string[] {
+  const reblocked: string[] = [];
+  const visited = new Set([taskId]);
+  const queue = [taskId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const dependent of tasks.filter(t => t.blockedBy.includes(id))) {
+      if (visited.has(dependent.id) || dependent.status === "completed") continue;
+      visited.add(dependent.id);
+      if (dependent.status !== "blocked") {
+        dependent.status = "blocked";
+        reblocked.push(dependent.id);
+      }
+      queue.push(dependent.id);
+    }
+  }
+  return reblocked;
+}
+
+/**
+ * Set `task.status` and cascade to its dependents: completing unblocks tasks
+ * whose last open blocker it was, reopening re-blocks everything downstream.
+ */
+function applyTaskStatus(
+  tasks: Task[],
+  task: Task,
+  status: TaskStatus,
+  result: StatusUpdateResult,
+  external: ExternalTasks = new Map(),
+): void {
+  const wasCompleted = task.status === "completed";
+  task.status = status;
+  if (status === "completed" && !wasCompleted) {
+    task.completedAt = new Date().toISOString();
+  } else if (status !== "completed") {
+    delete task.completedAt;
+  }
+
+  // If completing, check for cascading unblocks
+  if (status === "completed") {
+    for (const t of tasks) {
+      if (t.blockedBy.includes(task.id) && t.status === "blocked" && openBlockers(t, tasks, external).length === 0) {
+        t.status = "pending";
+        result.unblocked.push(t.id);
+      }
+    }
+  }
+
+  // If reopening, everything downstream that isn't done has to wait again
+  if (wasCompleted && status !== "completed") {
+    result.reblocked.push(...reblockDependents(tasks, task.id));
+  }
+}
+
+/**
+ * Hand out the project's next task ID. IDs of deleted or moved tasks are
+ * never reused, so history, undo, plan markers and `project#id` references
+ * keep pointing at the task they were made for.
+ */
+function allocateTaskId(data: TaskProject): string {
+  // A task added by hand may be past nextId
+  const maxId = data.tasks.reduce((max, t) => Math.max(max, parseInt(t.id) || 0), 0);
+  const id = Math.max(data.nextId, maxId + 1);
+  data.nextId = id + 1;
+  return String(id);
+}
+
+function childTasks(tasks: Task[], parentId: string): Task[] {
+  return tasks.filter(t => t.parentId === parentId);
+}
+
+/**
+ * `taskId` followed by all of its descendants, parents before children.
+ */
+function subtreeIds(tasks: Task[], taskId: string): string[] {
+  const ids = [taskId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const child of childTasks(tasks, ids[i])) {
+      if (!ids.includes(child.id)) {
+        ids.push(child.id);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Walk up from `parentId`: a parent whose subtasks are all completed is
+ * completed unless it still has open blockers, and a completed parent with
+ * an open subtask is reopened. Stops at the first parent whose status
+ * doesn't change.
+ */
+function rollUpParents(
+  tasks: Task[],
+  parentId: string | undefined,
+  result: StatusUpdateResult,
+  external: ExternalTasks = new Map(),
+): void {
+  const visited = new Set<string>();
+  for (let parent = tasks.find(t => t.id === parentId); parent && !visited.has(parent.id); ) {
+    visited.add(parent.id);
+    const children = childTasks(tasks, parent.id);
+    if (children.length === 0) {
+      return;
+    }
+    const allDone = children.every(t => t.status === "completed");
+    const blocked = openBlockers(parent, tasks, external).length > 0;
+
+    if (allDone && parent.status !== "completed" && !blocked) {
+      applyTaskStatus(tasks, parent, "completed", result, external);
+      result.parentsCompleted.push(parent.id);
+    } else if (!allDone && parent.status === "completed") {
+      applyTaskStatus(tasks, parent, blocked ? "blocked" : "pending", result, external);
+      result.parentsReopened.push(parent.id);
+    } else {
+      return;
+    }
+    parent = tasks.find(t => t.id === parent!.parentId);
+  }
+}
+
+/**
+ * Remove every `blockedBy`/`blocks` reference to `taskId` from the other
+ * tasks. Returns the blocked tasks that no longer have an open blocker.
+ */
+function detachTask(tasks: Task[], taskId: string, external: ExternalTasks = new Map()): string[] {
+  const unblocked: string[] = [];
+  for (const t of tasks) {
+    if (t.id === taskId) continue;
+    t.blocks = t.blocks.filter(id => id !== taskId);
+    if (t.blockedBy.includes(taskId)) {
+      t.blockedBy = t.blockedBy.filter(id => id !== taskId);
+      const remaining = tasks.filter(other => other.id !== taskId);
+      if (t.status === "blocked" && openBlockers(t, remaining, external).length === 0) {
+        t.status = "pending";
+        unblocked.push(t.id);
+      }
+    }
+  }
+  return unblocked;
+}
+
+function formatCycle(cycle: string[]): string {
+  return `${cycle.map(formatTaskRef).join(" → ")} (→ = blocked by)`;
+}
+
+/**
+ * Every elementary cycle reachable by depth-first search over `blockedBy`,
+ * each reported once as [a, b, ..., a].
+ */
+function findCycles(tasks: Task[]): string[][] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const seen = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string): void => {
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const next of byId.get(id)?.blockedBy ?? []) {
+      if (!byId.has(next)) continue;
+      if (state.get(next) === "visiting") {
+        const cycle = stack.slice(stack.indexOf(next));
+        const key = [...cycle].sort().join(",");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push([...cycle, next]);
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const task of tasks) {
+    if (!state.has(task.id)) {
+      visit(task.id);
+    }
+  }
+  return cycles;
+}
+
+/**
+ * References to other projects are only checked for existence, against
+ * `external`; their side of the edge lives in another file.
+ */
+function findDependencyIssues(tasks: Task[], external: ExternalTasks = new Map()): DependencyIssue[] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const issues: DependencyIssue[] = [];
+
+  for (const task of tasks) {
+    if (task.blockedBy.includes(task.id) || task.blocks.includes(task.id)) {
+      issues.push({ kind: "self", taskId: task.id, message: `#${task.id} references itself` });
+    }
+
+    for (const id of task.blockedBy) {
+      const blocker = byId.get(id);
+      if (id === task.id) continue;
+      if (isExternalRef(id)) {
+        if (!external.has(id)) {
+          issues.push({ kind: "dangling", taskId: task.id, relatedId: id, message: `#${task.id} is blocked by unknown task ${id}` });
+        }
+      } else if (!blocker) {
+        issues.push({ kind: "dangling", taskId: task.id, relatedId: id, message: `#${task.id} is blocked by unknown task #${id}` });
+      } else if (!blocker.blocks.includes(task.id)) {
+        issues.push({ kind: "asymmetric", taskId: task.id, relatedId: id, message: `#${task.id} is blocked by #${id}, but #${id} does not list it in blocks` });
+      }
+    }
+
+    for (const id of task.blocks) {
+      const dependent = byId.get(id);
+      if (id === task.id) continue;
+      if (isExternalRef(id)) {
+        if (!external.has(id)) {
+          issues.push({ kind: "dangling", taskId: task.id, relatedId: id, message: `#${task.id} blocks unknown task ${id}` });
+        }
+      } else if (!dependent) {
+        issues.push({ kind: "dangling", taskId: task.id, relatedId: id, message: `#${task.id} blocks unknown task #${id}` });
+      } else if (!dependent.blockedBy.includes(task.id)) {
+        issues.push({ kind: "asymmetric", taskId: id, relatedId: task.id, message: `#${task.id} blocks #${id}, but #${id} does not list it in blockedBy` });
+      }
+    }
+
+    if (task.status === "blocked" && openBlockers(task, tasks, external).length === 0) {
+      issues.push({ kind: "stuck", taskId: task.id, message: `#${task.id} is blocked but has no open blockers` });
+    }
+  }
+
+  for (const cycle of findCycles(tasks)) {
+    issues.push({ kind: "cycle", taskId: cycle[0], cycle, message: `Dependency cycle: ${formatCycle(cycle)}` });
+  }
+
+  for (const task of tasks) {
+    if (task.parentId === undefined) continue;
+    if (!byId.has(task.parentId)) {
+      issues.push({ kind: "parent", taskId: task.id, relatedId: task.parentId, message: `#${task.id} has unknown parent #${task.parentId}` });
+    } else if (parentChainLoops(tasks, task)) {
+      issues.push({ kind: "parent", taskId: task.id, relatedId: task.parentId, message: `#${task.id} is its own ancestor` });
+    }
+  }
+
+  return issues;
+}
+
+function parentChainLoops(tasks: Task[], task: Task): boolean {
+  const seen = new Set([task.id]);
+  for (let id = task.parentId; id !== undefined; id = tasks.find(t => t.id === id)?.parentId) {
+    if (seen.has(id)) {
+      return true;
+    }
+    seen.add(id);
+  }
+  return false;
+}
+
+/**
+ * Fix everything findDependencyIssues reports, in place. Dangling and self
+ * references are dropped, one-sided edges are completed (restoring edges that
+ * older versions stripped from `blockedBy` on completion), each cycle is
+ * broken by removing its closing edge, unknown or looping parents are cleared,
+ * and blocked tasks with no open blockers go back to pending. Returns the
+ * issues that were found.
+ */
+function repairDependencies(tasks: Task[], external: ExternalTasks = new Map()): DependencyIssue[] {
+  const issues = findDependencyIssues(tasks, external);
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const known = (id: string) => byId.has(id) || external.has(id);
+
+  for (const task of tasks) {
+    task.blockedBy = [...new Set(task.blockedBy.filter(id => id !== task.id && known(id)))];
+    task.blocks = [...new Set(task.blocks.filter(id => id !== task.id && known(id)))];
+  }
+
+  for (const task of tasks) {
+    for (const id of task.blockedBy.filter(id => !isExternalRef(id))) {
+      const blocker = byId.get(id)!;
+      if (!blocker.blocks.includes(task.id)) {
+        blocker.blocks.push(task.id);
+      }
+    }
+    for (const id of task.blocks.filter(id => !isExternalRef(id))) {
+      const dependent = byId.get(id)!;
+      if (!dependent.blockedBy.includes(task.id)) {
+        dependent.blockedBy.push(task.id);
+      }
+    }
+  }
+
+  for (let cycles = findCycles(tasks); cycles.length > 0; cycles = findCycles(tasks)) {
+    const cycle = cycles[0];
+    const from = byId.get(cycle[cycle.length - 2])!;
+    const to = byId.get(cycle[cycle.length - 1])!;
+    from.blockedBy = from.blockedBy.filter(id => id !== to.id);
+    to.blocks = to.blocks.filter(id => id !== from.id);
+  }
+
+  for (const task of tasks) {
+    if (task.parentId !== undefined && (!byId.has(task.parentId) || parentChainLoops(tasks, task))) {
+      delete task.parentId;
+    }
+  }
+
+  for (const task of tasks) {
+    const open = openBlockers(task, tasks, external);
+    if (task.status === "blocked" && open.length === 0) {
+      task.status = "pending";
+    } else if (task.status === "pending" && open.length > 0) {
+      task.status = "blocked";
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Activity Log
+// ============================================================================
+
+// One line of tasks/{project}.events.jsonl
+type TaskEvent = {
+  // Events written by the same change share this ID; undo reverts whole changes
+  change: string;
+  at: string;
+  session?: string;
+  taskId: string;
+  before: Task | null;  // null when the change created the task
+  after: Task | null;   // null when it deleted the task
+  undoes?: string[];
+};
+
+// `updatedAt` is restamped by every write, so it doesn't count as a change
+function sameTaskState(a: Task | null, b: Task | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  const { updatedAt: _a, ...restA } = a;
+  const { updatedAt: _b, ...restB } = b;
+  return Value.Equal(restA, restB);
+}
+
+// Put a restored task back before the first task with a higher ID
+function insertTaskInOrder(tasks: Task[], task: Task): void {
+  const index = tasks.findIndex(t => (parseInt(t.id) || 0) > (parseInt(task.id) || 0));
+  tasks.splice(index >= 0 ? index : tasks.length, 0, task);
+}
+
+/**
+ * `#4` for a task in the same project, `api#4` for one in another.
+ */
+function formatTaskRef(id: string): string {
+  return isExternalRef(id) ? id : `#${id}`;
+}
+
+function formatIds(ids: string[]): string {
+  return ids.map(formatTaskRef).join(", ");
+}
+
+/**
+ * Describe what an event changed, e.g. "status pending → completed".
+ */
+function describeEvent(event: TaskEvent): string {
+  const { before, after } = event;
+  if (!before) {
+    return `created: ${after!.subject}`;
+  }
+  if (!after) {
+    return `deleted: ${before.subject}`;
+  }
+
+  const parts: string[] = [];
+  if (before.status !== after.status) {
+    parts.push(`status ${before.status} → ${after.status}`);
+  }
+  if (before.subject !== after.subject) {
+    parts.push(`renamed to: ${after.subject}`);
+  }
+  const added = after.blockedBy.filter(id => !before.blockedBy.includes(id));
+  const removed = before.blockedBy.filter(id => !after.blockedBy.includes(id));
+  if (added.length > 0) {
+    parts.push(`now depends on ${formatIds(added)}`);
+  }
+  if (removed.length > 0) {
+    parts.push(`no longer depends on ${formatIds(removed)}`);
+  }
+  if (before.notes !== after.notes) {
+    parts.push("notes updated");
+  }
+  for (const comment of (after.comments ?? []).slice(before.comments?.length ?? 0)) {
+    parts.push(`comment: ${comment.text}`);
+  }
+  for (const key of ["parentId", "priority", "tags", "assignee", "due", "estimate"] as const) {
+    if (!Value.Equal(before[key], after[key])) {
+      parts.push(after[key] === undefined ? `${key} cleared` : `${key} → ${after[key]}`);
+    }
+  }
+  if (parts.length === 0 && !Value.Equal(before.blocks, after.blocks)) {
+    parts.push(`blocks ${formatIds(after.blocks) || "nothing"}`);
+  }
+  return parts.join("; ") || "updated";
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+type SearchOptions = {
+  project?: string;
+  status?: TaskStatus;
+  projectStatus?: TaskProject["status"];
+  tags?: string[];   // Tasks must have all of them
+  limit?: number;
+  includeArchived?: boolean;  // Archived projects and tasks too
+};
+
+type SearchHit = {
+  project: string;
+  task?: Task;      // Unset for matches in the plan
+  field: "subject" | "notes" | "comment" | "plan";
+  score: number;
+  snippet: string;  // Matched terms wrapped in **…**
+};
+
+// Relative weight of a match in each field
+const SEARCH_WEIGHTS = { subject: 3, notes: 1, comment: 1, plan: 0.5 };
+const SNIPPET_LENGTH = 100;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseSearchQuery(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+}
+
+function countMatches(text: string, term: string): number {
+  return text.toLowerCase().split(term).length - 1;
+}
+
+/**
+ * Score `text` for the query: every occurrence of a term counts, and the
+ * whole query appearing as a phrase counts double.
+ */
+function scoreText(text: string, query: string, terms: string[], weight: number): number {
+  const hits = terms.reduce((sum, term) => sum + countMatches(text, term), 0);
+  const phrase = terms.length > 1 ? countMatches(text, query.trim().toLowerCase().replace(/\s+/g, " ")) * 2 : 0;
+  return (hits + phrase) * weight;
+}
+
+// An excerpt of `text` around the first match, with matched terms in bold
+function highlightSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lower = flat.toLowerCase();
+  const first = Math.min(...terms.map(t => lower.indexOf(t)).filter(i => i >= 0), flat.length);
+  const start = first < SNIPPET_LENGTH / 3 ? 0 : first - Math.floor(SNIPPET_LENGTH / 3);
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  const pattern = new RegExp(terms.map(escapeRegExp).join("|"), "gi");
+  const excerpt = flat.slice(start, end).replace(pattern, match => `**${match}**`);
+  return `${start > 0 ? "…" : ""}${excerpt}${end < flat.length ? "…" : ""}`;
+}
+
+/**
+ * Case-insensitive search over task subjects, notes and comments, and the
+ * lines of each plan that aren't linked checklist items (those are already
+ * covered by their task). A result must contain every term. Best first.
+ */
+function searchProjects(
+  projects: Array<{ data: TaskProject; plan: string | null }>,
+  query: string,
+  opts: SearchOptions = {},
+): SearchHit[] {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) {
+    return [];
+  }
+  const containsAll = (text: string) => terms.every(term => text.toLowerCase().includes(term));
+  const hits: SearchHit[] = [];
+
+  for (const { data, plan } of projects) {
+    for (const task of data.tasks) {
+      if (opts.status && task.status !== opts.status) {
+        continue;
+      }
+      if (task.archivedAt && !opts.includeArchived) {
+        continue;
+      }
+      const taskTags = (task.tags ?? []).map(t => t.toLowerCase());
+      if (opts.tags?.some(tag => !taskTags.includes(tag.toLowerCase()))) {
+        continue;
+      }
+
+      const fields: Array<[SearchHit["field"], string]> = [
+        ["subject", task.subject],
+        ["notes", task.notes],
+        ...(task.comments ?? []).map(c => ["comment", c.text] as [SearchHit["field"], string]),
+      ];
+      if (!containsAll(fields.map(([, text]) => text).join("\n"))) {
+        continue;
+      }
+
+      let score = 0;
+      let best: [SearchHit["field"], string, number] | null = null;
+      for (const [field, text] of fields) {
+        const fieldScore = scoreText(text, query, terms, SEARCH_WEIGHTS[field]);
+        score += fieldScore;
+        if (fieldScore > 0 && (!best || fieldScore > best[2])) {
+          best = [field, text, fieldScore];
+        }
+      }
+      hits.push({
+        project: data.project,
+        task,
+        field: best![0],
+        score,
+        snippet: highlightSnippet(best![1], terms),
+      });
+    }
+
+    // Plans have no task status or tags to filter on
+    if (plan === null || opts.status || opts.tags?.length) {
+      continue;
+    }
+    const lines = plan.split("\n").filter(line => line.trim() && !parseChecklistItem(line)?.taskId);
+    if (!containsAll(lines.join("\n"))) {
+      continue;
+    }
+    const scored = lines.map(line => ({ line, score: scoreText(line, query, terms, SEARCH_WEIGHTS.plan) }));
+    const best = scored.reduce((a, b) => (b.score > a.score ? b : a));
+    hits.push({
+      project: data.project,
+      field: "plan",
+      score: scored.reduce((sum, l) => sum + l.score, 0),
+      snippet: highlightSnippet(best.line, terms),
+    });
+  }
+
+  // Ties go to open tasks, then the most recently updated
+  const isDone = (hit: SearchHit) => (hit.task?.status === "completed" ? 1 : 0);
+  hits.sort((a, b) =>
+    b.score - a.score ||
+    isDone(a) - isDone(b) ||
+    (b.task?.updatedAt ?? "").localeCompare(a.task?.updatedAt ?? "")
+  );
+  return opts.limit !== undefined ? hits.slice(0, opts.limit) : hits;
+}
+
+// ============================================================================
+// Ready Queue
+// ============================================================================
+
+type ReadyTask = {
+  project: string;
+  task: Task;
+  // Dependents for which this is the last open blocker
+  unblocks: string[];
+};
+
+/**
+ * Ready tasks ranked by priority, then by how many dependents they would
+ * unblock, then by age (creation time, falling back to project age and ID).
+ */
+function rankReadyTasks(projects: TaskProject[], external: ExternalTasks = new Map()): ReadyTask[] {
+  const ready: Array<ReadyTask & { created: string }> = [];
+
+  for (const data of projects) {
+    for (const task of data.tasks) {
+      if (task.status !== "pending" || openBlockers(task, data.tasks, external).length > 0) continue;
+      // Parents are finished by completing their subtasks
+      if (data.tasks.some(t => t.parentId === task.id && t.status !== "completed")) continue;
+      const unblocks = data.tasks
+        .filter(t => t.status !== "completed" && t.blockedBy.includes(task.id))
+        .filter(t => openBlockers(t, data.tasks, external).every(id => id === task.id))
+        .map(t => t.id);
+      ready.push({ project: data.project, task, unblocks, created: task.createdAt ?? data.created });
+    }
+  }
+
+  ready.sort((a, b) =>
+    priorityRank(b.task) - priorityRank(a.task) ||
+    b.unblocks.length - a.unblocks.length ||
+    a.created.localeCompare(b.created) ||
+    (parseInt(a.task.id) || 0) - (parseInt(b.task.id) || 0)
+  );
+  return ready.map(({ created: _created, ...rest }) => rest);
+}
+
+function formatReadyTask(ready: ReadyTask): string {
+  let line = `${ready.project} #${ready.task.id}: ${ready.task.subject}`;
+  if (ready.unblocks.length > 0) {
+    line += ` (unblocks: ${ready.unblocks.join(", ")})`;
+  }
+  return line;
+}
+
+// ============================================================================
+// Staleness
+// ============================================================================
+
+// stale: in progress, untouched too long; stuck: blocked too long;
+// abandoned: pending, untouched too long; waiting: blocked on a task that is
+// itself stale, stuck or abandoned
+type StaleKind = "stale" | "stuck" | "abandoned" | "waiting";
+
+type StaleTask = {
+  project: string;
+  task: Task;
+  kind: StaleKind;
+  days: number;               // since the task was last updated
+  stalledBlockers: string[];  // open blockers that are stalled themselves
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_STALE_OPTIONS: StaleOptions = {
+  inProgressDays: 3,
+  blockedDays: 7,
+  pendingDays: 30,
+  inject: false,
+};
+
+function taskAgeDays(task: Task, fallback: string, now: number): number {
+  return Math.floor((now - Date.parse(task.updatedAt ?? task.createdAt ?? fallback)) / DAY_MS);
+}
+
+/**
+ * The staleness kind a task has on its own age, ignoring its blockers.
+ */
+function ownStaleKind(task: Task, days: number, opts: StaleOptions): StaleKind | null {
+  if (task.status === "in_progress" && days >= opts.inProgressDays) return "stale";
+  if (task.status === "blocked" && days >= opts.blockedDays) return "stuck";
+  if (task.status === "pending" && days >= opts.pendingDays) return "abandoned";
+  return null;
+}
+
+/**
+ * Tasks in `projects` that look forgotten, longest untouched first. Blocked
+ * tasks are also reported when something they wait on (here or, through
+ * `external`, in another project) is stalled, since they won't move until it
+ * does.
+ */
+function findStaleTasks(
+  projects: TaskProject[],
+  options: Partial<StaleOptions> = {},
+  external: ExternalTasks = new Map(),
+  now = Date.now(),
+): StaleTask[] {
+  const opts = { ...DEFAULT_STALE_OPTIONS, ...options };
+  const found: StaleTask[] = [];
+
+  for (const data of projects) {
+    const stalled = (ref: string): boolean => {
+      const task = isExternalRef(ref) ? external.get(ref) : data.tasks.find(t => t.id === ref);
+      return task !== undefined && ownStaleKind(task, taskAgeDays(task, data.created, now), opts) !== null;
+    };
+
+    for (const task of data.tasks) {
+      const days = taskAgeDays(task, data.created, now);
+      const stalledBlockers = task.status === "blocked"
+        ? openBlockers(task, data.tasks, external).filter(stalled)
+        : [];
+      const kind = ownStaleKind(task, days, opts) ?? (stalledBlockers.length > 0 ? "waiting" : null);
+      if (kind) {
+        found.push({ project: data.project, task, kind, days, stalledBlockers });
+      }
+    }
+  }
+
+  return found.sort((a, b) => b.days - a.days);
+}
+
+// ============================================================================
+// Project Stats
+// ============================================================================
+
+type DurationStats = {
+  average: number | null;   // days
+  median: number | null;
+  count: number;
+};
+
+type ProjectStats = {
+  project: string;
+  counts: Record<TaskStatus, number> & { ready: number; total: number };
+  // Longest chain of open work, first task to last. Measured in estimated
+  // hours when any open task has an estimate, otherwise in tasks.
+  criticalPath: { taskIds: string[]; length: number; unit: "hours" | "tasks" };
+  throughput: { days: number; completed: number; perWeek: number };
+  leadTime: DurationStats;    // created → completed
+  cycleTime: DurationStats;   // first in_progress (from the activity log) → completed
+  // Open tasks at the end of each of the last `days` days, oldest first
+  burndown: Array<{ date: string; remaining: number }>;
+};
+
+const DEFAULT_STATS_DAYS = 14;
+
+function durationStats(days: number[]): DurationStats {
+  if (days.length === 0) {
+    return { average: null, median: null, count: 0 };
+  }
+  const sorted = [...days].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    average: sorted.reduce((sum, d) => sum + d, 0) / sorted.length,
+    median: sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    count: sorted.length,
+  };
+}
+
+/**
+ * Longest path through the open part of the dependency graph. A task waits
+ * on its open blockers and, if it's a parent, on its open subtasks; parents
+ * add no work of their own. Tasks in other projects are left out.
+ */
+function findCriticalPath(tasks: Task[]): ProjectStats["criticalPath"] {
+  const open = new Map(tasks.filter(t => t.status !== "completed").map(t => [t.id, t]));
+  const estimates = [...open.values()].map(t => t.estimate).filter((e): e is number => e !== undefined);
+  const unit = estimates.length > 0 ? "hours" : "tasks";
+  // Tasks without an estimate count as the average of those with one
+  const fallback = estimates.length > 0 ? estimates.reduce((a, b) => a + b, 0) / estimates.length : 1;
+
+  const finish = new Map<string, { length: number; previous?: string }>();
+  const visiting = new Set<string>();
+  const visit = (task: Task): number => {
+    const known = finish.get(task.id);
+    if (known) return known.length;
+    // A cycle in the data; don't follow it around
+    if (visiting.has(task.id)) return 0;
+    visiting.add(task.id);
+
+    const children = childTasks(tasks, task.id).filter(t => open.has(t.id));
+    const own = children.length > 0 ? 0 : unit === "hours" ? task.estimate ?? fallback : 1;
+    let best: { length: number; previous?: string } = { length: own };
+    for (const id of [...task.blockedBy.filter(id => open.has(id)), ...children.map(t => t.id)]) {
+      const length = own + visit(open.get(id)!);
+      if (length > best.length) {
+        best = { length, previous: id };
+      }
+    }
+
+    visiting.delete(task.id);
+    finish.set(task.id, best);
+    return best.length;
+  };
+
+  let end: string | undefined;
+  for (const task of open.values()) {
+    const length = visit(task);
+    if (end === undefined || length > finish.get(end)!.length) {
+      end = task.id;
+    }
+  }
+
+  const taskIds: string[] = [];
+  for (let id = end; id !== undefined; id = finish.get(id)!.previous) {
+    taskIds.unshift(id);
+  }
+  return { taskIds, length: end !== undefined ? finish.get(end)!.length : 0, unit };
+}
+
+/**
+ * Counts, critical path, throughput and timing over the last `days` days,
+ * and a burndown. `events` is the project's activity log, used to find when
+ * work on each task started.
+ */
+function computeProjectStats(
+  data: TaskProject,
+  events: TaskEvent[],
+  opts: { days?: number; now?: number; external?: ExternalTasks } = {},
+): ProjectStats {
+  const days = opts.days ?? DEFAULT_STATS_DAYS;
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`Invalid days '${days}' (expected a whole number, at least 1)`);
+  }
+  const now = opts.now ?? Date.now();
+  const since = now - days * DAY_MS;
+  const count = (status: TaskStatus) => data.tasks.filter(t => t.status === status).length;
+
+  const completed = data.tasks.filter(t => t.status === "completed" && t.completedAt);
+  const daysBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / DAY_MS;
+
+  const started = new Map<string, string>();
+  for (const event of events) {
+    if (event.after?.status === "in_progress" && event.before?.status !== "in_progress" && !started.has(event.taskId)) {
+      started.set(event.taskId, event.at);
+    }
+  }
+
+  const burndown: ProjectStats["burndown"] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const endOfDay = new Date(now - i * DAY_MS);
+    endOfDay.setUTCHours(23, 59, 59, 999);
+    const cutoff = endOfDay.getTime();
+    const remaining = data.tasks.filter(t =>
+      Date.parse(t.createdAt ?? data.created) <= cutoff &&
+      !(t.status === "completed" && t.completedAt && Date.parse(t.completedAt) <= cutoff)
+    ).length;
+    burndown.push({ date: endOfDay.toISOString().split("T")[0], remaining });
+  }
+
+  const recent = completed.filter(t => Date.parse(t.completedAt!) >= since);
+  return {
+    project: data.project,
+    counts: {
+      pending: count("pending"),
+      in_progress: count("in_progress"),
+      blocked: count("blocked"),
+      completed: count("completed"),
+      ready: rankReadyTasks([data], opts.external).length,
+      total: data.tasks.length,
+    },
+    criticalPath: findCriticalPath(data.tasks),
+    throughput: { days, completed: recent.length, perWeek: recent.length / days * 7 },
+    leadTime: durationStats(
+      recent.filter(t => t.createdAt).map(t => daysBetween(t.createdAt!, t.completedAt!))
+    ),
+    cycleTime: durationStats(
+      recent.filter(t => started.has(t.id)).map(t => daysBetween(started.get(t.id)!, t.completedAt!))
+    ),
+    burndown,
+  };
+}
+
+// ============================================================================
+// Plan Helpers
+// ============================================================================
+
+const PLAN_SECTIONS = ["Goal", "Phases", "Notes"] as const;
+
+type PlanSectionUpdate = {
+  goal?: string;
+  phases?: string;
+  notes?: string;
+};
+
+type PlanSyncResult = {
+  created: Task[];
+  completed: string[];
+  reopened: string[];
+  // Checkbox changes that couldn't be applied, e.g. a parent with open subtasks
+  errors: string[];
+};
+
+type PlanDocument = {
+  preamble: string;
+  sections: Array<{ heading: string; body: string }>;
+};
+
+type ChecklistItem = {
+  indent: string;
+  checked: boolean;
+  text: string;
+  taskId?: string;
+};
+
+function parsePlan(content: string): PlanDocument {
+  const doc: PlanDocument = { preamble: "", sections: [] };
+  const parts = content.split(/^## +(.+?)[ \t]*$/m);
+  doc.preamble = parts[0];
+  for (let i = 1; i < parts.length; i += 2) {
+    doc.sections.push({ heading: parts[i], body: parts[i + 1].replace(/^\n/, "") });
+  }
+  return doc;
+}
+
+function renderPlan(doc: PlanDocument): string {
+  let out = doc.preamble;
+  for (const section of doc.sections) {
+    if (out && !out.endsWith("\n\n")) {
+      out = out.replace(/\n*$/, "\n\n");
+    }
+    out += `## ${section.heading}\n${section.body}`;
+  }
+  return out.endsWith("\n") ? out : `${out}\n`;
+}
+
+function getPlanSection(doc: PlanDocument, name: string): string | null {
+  const section = doc.sections.find(s => s.heading.toLowerCase() === name.toLowerCase());
+  return section ? section.body.replace(/\s+$/, "") : null;
+}
+
+function setPlanSection(doc: PlanDocument, name: string, body: string): void {
+  const trimmed = `${body.replace(/\s+$/, "")}\n`;
+  const section = doc.sections.find(s => s.heading.toLowerCase() === name.toLowerCase());
+  if (section) {
+    section.body = trimmed;
+  } else {
+    doc.sections.push({ heading: name, body: trimmed });
+  }
+}
+
+function parseChecklistItem(line: string): ChecklistItem | null {
+  const match = line.match(/^(\s*)- \[( |x|X)\] +(.*?)(?:\s*<!-- task:(\S+) -->)?\s*$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    indent: match[1],
+    checked: match[2] !== " ",
+    text: match[3],
+    taskId: match[4],
+  };
+}
+
+function formatChecklistItem(item: ChecklistItem): string {
+  const marker = item.taskId ? ` <!-- task:${item.taskId} -->` : "";
+  return `${item.indent}- [${item.checked ? "x" : " "}] ${item.text}${marker}`;
+}
+
+// Where work stood when the context was last compacted, kept in plan Notes
+type Checkpoint = {
+  project: string;
+  at: string;
+  session?: string;
+  // Last activity log change covered, so the next checkpoint starts after it
+  lastChange?: string;
+  body: string;
+};
+
+const CHECKPOINT_PATTERN =
+  /^<!-- checkpoint at:(\S+)(?: session:(\S+))?(?: last:(\S+))? -->\n([\s\S]*?)\n<!-- \/checkpoint -->$/gm;
+
+// Every checkpoint block in `notes`; there's one per session
+function parseCheckpoints(project: string, notes: string): Checkpoint[] {
+  return [...notes.matchAll(CHECKPOINT_PATTERN)].map(match => (
+    { project, at: match[1], session: match[2], lastChange: match[3], body: match[4] }
+  ));
+}
+
+// Replace the checkpoint block of `checkpoint.session` in `notes`, or append one
+function setCheckpoint(notes: string, checkpoint: Checkpoint): string {
+  const session = checkpoint.session ? ` session:${checkpoint.session}` : "";
+  const last = checkpoint.lastChange ? ` last:${checkpoint.lastChange}` : "";
+  const block = `<!-- checkpoint at:${checkpoint.at}${session}${last} -->\n${checkpoint.body}\n<!-- /checkpoint -->`;
+  let replaced = false;
+  const updated = notes.replace(CHECKPOINT_PATTERN, (existing, _at, owner: string | undefined) => {
+    if (owner !== checkpoint.session) {
+      return existing;
+    }
+    replaced = true;
+    return block;
+  });
+  if (replaced) {
+    return updated;
+  }
+  return notes ? `${notes}\n\n${block}` : block;
+}
+
+// ============================================================================
+// External Edits
+// ============================================================================
+
+// Quiet period after a file event before the file is read, so an editor's
+// write-and-rename counts once
+const WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Three-way merge of one value: a change on either side wins, and both
+ * sides changing it differently is a conflict (ours is kept).
+ */
+function mergeValue<T>(base: T, ours: T, theirs: T): { value: T; conflict: boolean } {
+  if (Value.Equal(ours, theirs) || Value.Equal(theirs, base)) {
+    return { value: ours, conflict: false };
+  }
+  if (Value.Equal(ours, base)) {
+    return { value: theirs, conflict: false };
+  }
+  return { value: ours, conflict: true };
+}
+
+/**
+ * Combine `ours` (a change made from `base`) with `theirs` (what was saved
+ * meanwhile), field by field within each task. Conflicts name what both
+ * sides changed, e.g. `#3 status`.
+ */
+function mergeProjects(
+  base: TaskProject,
+  ours: TaskProject,
+  theirs: TaskProject,
+): { merged: TaskProject; conflicts: string[] } {
+  const conflicts: string[] = [];
+  const status = mergeValue(base.status, ours.status, theirs.status);
+  if (status.conflict) {
+    conflicts.push("project status");
+  }
+
+  const find = (data: TaskProject, id: string) => data.tasks.find(t => t.id === id);
+  const tasks: Task[] = [];
+  for (const id of new Set([...ours.tasks, ...theirs.tasks].map(t => t.id))) {
+    const [before, mine, saved] = [find(base, id), find(ours, id), find(theirs, id)];
+    if (!mine || !saved) {
+      // Created or deleted on one side
+      const whole = mergeValue(before, mine, saved);
+      if (whole.conflict) {
+        conflicts.push(`#${id} ${mine ? "deleted in the file" : "deleted here"}`);
+      }
+      if (whole.value) {
+        tasks.push(whole.value);
+      }
+      continue;
+    }
+    if (!before && !Value.Equal(mine, saved)) {
+      conflicts.push(`#${id} created on both sides`);
+      tasks.push(mine);
+      continue;
+    }
+
+    const task = structuredClone(mine);
+    const keys = new Set([...Object.keys(mine), ...Object.keys(saved)] as Array<keyof Task>);
+    keys.delete("updatedAt");
+    for (const key of keys) {
+      const field = mergeValue(before?.[key], mine[key], saved[key]);
+      if (field.conflict) {
+        conflicts.push(`#${id} ${key}`);
+      }
+      setOrDelete(task, key, field.value ?? null);
+    }
+    const updated = [mine.updatedAt, saved.updatedAt].filter((at): at is string => at !== undefined).sort().at(-1);
+    setOrDelete(task, "updatedAt", updated ?? null);
+    tasks.push(task);
+  }
+
+  // Either side may have handed out IDs since the base
+  const nextId = Math.max(ours.nextId, theirs.nextId);
+  return { merged: { ...ours, status: status.value, nextId, tasks }, conflicts };
+}
+
+/**
+ * Plan counterpart of mergeProjects, section by section (the text above
+ * the first section counts as one). Conflicts name the sections.
+ */
+function mergePlans(base: string, ours: string, theirs: string): { merged: string; conflicts: string[] } {
+  const sections = (content: string) => {
+    const doc = parsePlan(content);
+    return new Map([
+      ["", doc.preamble],
+      ...doc.sections.map(s => [s.heading.toLowerCase(), `## ${s.heading}\n${s.body}`] as [string, string]),
+    ]);
+  };
+  const [before, mine, saved] = [sections(base), sections(ours), sections(theirs)];
+
+  const conflicts: string[] = [];
+  const parts: string[] = [];
+  for (const key of new Set([...saved.keys(), ...mine.keys()])) {
+    const part = mergeValue(before.get(key), mine.get(key), saved.get(key));
+    if (part.conflict) {
+      conflicts.push(key ? `plan section ${key}` : "plan header");
+    }
+    if (part.value !== undefined) {
+      parts.push(part.value);
+    }
+  }
+  return { merged: parts.join(""), conflicts };
+}
+
+/**
+ * Call `onChange` when a project's tasks file (`tasksDir`, JSON storage
+ * only) or plan changes on disk. Events are debounced per file, and a file
+ * rewritten with the content it had when watching started, or with what
+ * `ownWrites` says the plugin itself just wrote (digests keyed by
+ * `{file}:{project}`, see TaskStorageOptions.onWrite), is ignored. Returns a
+ * function that stops watching.
+ */
+function watchProjectFiles(
+  dirs: { tasksDir?: string; plansDir: string },
+  onChange: (project: string, file: "tasks" | "plan") => void,
+  ownWrites: ReadonlyMap<string, string> = new Map(),
+): () => void {
+  const digests = new Map<string, string>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const seed = (dir: string, extension: string) => {
+    for (const filename of fs.existsSync(dir) ? fs.readdirSync(dir) : []) {
+      if (filename.endsWith(extension) && isValidProjectName(filename.slice(0, -extension.length))) {
+        try {
+          digests.set(path.join(dir, filename), contentDigest(fs.readFileSync(path.join(dir, filename), "utf-8")));
+        } catch {
+          // Gone already, or a directory
+        }
+      }
+    }
+  };
+
+  const check = (filePath: string, project: string, file: "tasks" | "plan") => {
+    timers.delete(filePath);
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, "utf-8");
+    } catch {
+      digests.delete(filePath);
+      return;
+    }
+    const digest = contentDigest(content);
+    if (digests.get(filePath) !== digest) {
+      digests.set(filePath, digest);
+      if (ownWrites.get(`${file}:${project}`) !== digest) {
+        onChange(project, file);
+      }
+    }
+  };
+
+  const watch = (dir: string, extension: string, file: "tasks" | "plan") =>
+    fs.watch(dir, (_event, filename) => {
+      if (!filename?.endsWith(extension)) return;
+      const project = filename.slice(0, -extension.length);
+      if (!isValidProjectName(project)) return;
+
+      const filePath = path.join(dir, filename);
+      clearTimeout(timers.get(filePath));
+      timers.set(filePath, setTimeout(() => check(filePath, project, file), WATCH_DEBOUNCE_MS));
+    });
+
+  seed(dirs.plansDir, ".md");
+  const watchers = [watch(dirs.plansDir, ".md", "plan")];
+  if (dirs.tasksDir) {
+    seed(dirs.tasksDir, ".json");
+    watchers.push(watch(dirs.tasksDir, ".json", "tasks"));
+  }
+
+  return () => {
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+    for (const timer of timers.values()) {
+      clearTimeout(timer);
+    }
+    timers.clear();
+  };
+}
+
+// ============================================================================
+// Project Templates
+// ============================================================================
+
+// A task to create from a template. `blockedBy` and `parent` name earlier
+// tasks by key (default: position in the list, from 1) or, for blockedBy,
+// tasks in other projects as `project#id`.
+type TemplateTask = {
+  key?: string;
+  subject: string;
+  blockedBy?: string[];
+  parent?: string;
+  notes?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  assignee?: string;
+  due?: string;
+  estimate?: number;
+};
+
+type ProjectTemplate = {
+  description?: string;
+  // Default values for placeholders
+  variables?: Record<string, string>;
+  // Plan markdown, as one string or a list of lines
+  plan?: string | string[];
+  tasks?: TemplateTask[];
+};
+
+const ProjectTemplateSchema = Type.Object({
+  description: Type.Optional(Type.String()),
+  variables: Type.Optional(Type.Record(Type.String(), Type.String())),
+  plan: Type.Optional(Type.Union([Type.String(), Type.Array(Type.String())])),
+  tasks: Type.Optional(Type.Array(Type.Object({
+    key: Type.Optional(Type.String({ minLength: 1 })),
+    subject: Type.String({ minLength: 1 }),
+    blockedBy: Type.Optional(Type.Array(Type.String())),
+    parent: Type.Optional(Type.String()),
+    notes: Type.Optional(Type.String()),
+    priority: Type.Optional(PrioritySchema),
+    tags: Type.Optional(Type.Array(Type.String())),
+    assignee: Type.Optional(Type.String()),
+    due: Type.Optional(Type.String()),
+    estimate: Type.Optional(Type.Number({ minimum: 0 })),
+  }))),
+});
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// Strings of a template that placeholders are filled in
+function templateStrings(template: ProjectTemplate): string[] {
+  return [
+    ...[template.plan ?? []].flat(),
+    ...(template.tasks ?? []).flatMap(t => [t.subject, t.notes, t.assignee, t.due, ...(t.tags ?? [])]),
+  ].filter((s): s is string => s !== undefined);
+}
+
+function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Validate parsed template content: the schema, plus task keys that are
+ * unique and only referenced after they're defined (which also rules out
+ * cycles). Throws with the template's name and the first problem found.
+ */
+function checkTemplate(raw: unknown, name: string): ProjectTemplate {
+  if (!Value.Check(ProjectTemplateSchema, raw)) {
+    const problem = [...Value.Errors(ProjectTemplateSchema, raw)][0];
+    throw new Error(`Template '${name}' is invalid: ${problem?.path || "/"}: ${problem?.message}`);
+  }
+
+  const template = raw as ProjectTemplate;
+  const keys = new Set<string>();
+  for (const [i, task] of (template.tasks ?? []).entries()) {
+    const key = task.key ?? String(i + 1);
+    const unknown = [...(task.blockedBy ?? []).filter(ref => !isExternalRef(ref)), ...(task.parent ? [task.parent] : [])]
+      .filter(ref => !keys.has(ref));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Template '${name}' is invalid: task '${key}' refers to ${unknown.map(k => `'${k}'`).join(", ")}, ` +
+        "which must be an earlier task's key"
+      );
+    }
+    if (keys.has(key)) {
+      throw new Error(`Template '${name}' is invalid: duplicate task key '${key}'`);
+    }
+    keys.add(key);
+  }
+  return template;
+}
+
+/**
+ * Template names in `dir` (`{name}.json`), sorted. A missing directory has none.
+ */
+function listTemplates(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith(".json") && isValidProjectName(file.slice(0, -".json".length)))
+    .map(file => file.slice(0, -".json".length))
+    .sort();
+}
+
+function loadTemplate(dir: string, name: string): ProjectTemplate {
+  const filePath = containedPath(dir, name, ".json");
+  if (!fs.existsSync(filePath)) {
+    const available = listTemplates(dir);
+    throw new Error(
+      `Template '${name}' not found in ${dir}` +
+      (available.length > 0 ? ` (available: ${available.join(", ")})` : "")
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    throw new Error(`Template '${name}' is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return checkTemplate(raw, name);
+}
+
+// ============================================================================
+// Formatting Helpers
+// ============================================================================
+
+/**
+ * Compact attribute summary, e.g. `{high, @alice, due 2026-03-01, 4h, #api}`.
+ */
+function formatTaskMeta(task: Task): string {
+  const parts = [
+    task.priority && task.priority !== "normal" ? task.priority : null,
+    task.assignee ? `@${task.assignee}` : null,
+    task.due ? `due ${task.due}` : null,
+    task.estimate !== undefined ? `${task.estimate}h` : null,
+    task.tags && task.tags.length > 0 ? task.tags.map(t => `#${t}`).join(" ") : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? ` {${parts.join(", ")}}` : "";
+}
+
+function statusIcon(status: TaskStatus): string {
+  return status === "completed" ? "✓" :
+    status === "in_progress" ? "→" :
+    status === "blocked" ? "⊘" : " ";
+}
+
+/**
+ * Subtask progress like ` [3/5]`, or "" for tasks without subtasks.
+ */
+function formatProgress(task: Task, allTasks: Task[]): string {
+  const children = childTasks(allTasks, task.id);
+  if (children.length === 0) {
+    return "";
+  }
+  const done = children.filter(t => t.status === "completed").length;
+  return ` [${done}/${children.length}]`;
+}
+
+/**
+ * A blocker as shown in listings: local IDs as-is, tasks in other projects
+ * with their current status.
+ */
+function formatBlocker(id: string, external: ExternalTasks): string {
+  return isExternalRef(id) ? `${id} [${external.get(id)?.status ?? "missing"}]` : id;
+}
+
+/**
+ * One line per task, subtasks indented under their parent. A task whose
+ * parent isn't in `tasks` (e.g. filtered out) is shown at the top level.
+ */
+function formatTaskList(
+  project: TaskProject,
+  tasks: Task[] = project.tasks,
+  external: ExternalTasks = new Map(),
+): string {
+  const lines = [`=== ${project.project} ===`];
+  const shown = new Set(tasks.map(t => t.id));
+  const rendered = new Set<string>();
+
+  const render = (task: Task, depth: number): void => {
+    if (rendered.has(task.id)) return;
+    rendered.add(task.id);
+
+    let line = `${"  ".repeat(depth)}[${statusIcon(task.status)}] #${task.id}: ${task.subject}` +
+      `${formatProgress(task, project.tasks)}${formatTaskMeta(task)}${task.archivedAt ? " (archived)" : ""}`;
+    const waitingOn = openBlockers(task, project.tasks, external);
+    if (waitingOn.length > 0) {
+      line += ` (blocked by: ${waitingOn.map(id => formatBlocker(id, external)).join(", ")})`;
+    }
+    lines.push(line);
+
+    for (const child of tasks.filter(t => t.parentId === task.id)) {
+      render(child, depth + 1);
+    }
+  };
+
+  for (const task of tasks.filter(t => !t.parentId || !shown.has(t.parentId))) {
+    render(task, 0);
+  }
+  // Anything left sits in a parent loop; show it flat rather than hide it
+  for (const task of tasks) {
+    render(task, 0);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * ` (held by main)` for a claimed task, or a note that the lease ran out.
+ */
+function formatClaim(task: Task): string {
+  if (!task.claim) {
+    return "";
+  }
+  return isClaimActive(task.claim) ? ` (held by ${task.claim.owner})` : ` (lease of ${task.claim.owner} expired)`;
+}
+
+function formatSearchHit(hit: SearchHit): string {
+  if (!hit.task) {
+    return `${hit.project} (plan): ${hit.snippet}`;
+  }
+  const heading = `${hit.project} #${hit.task.id} [${hit.task.status}]`;
+  return hit.field === "subject"
+    ? `${heading}: ${hit.snippet}`
+    : `${heading}: ${hit.task.subject}\n    ${hit.field}: ${hit.snippet}`;
+}
+
+// "2026-02-19 21:04", in UTC like the stored timestamps
+function formatTimestamp(iso: string): string {
+  return iso.slice(0, 16).replace("T", " ");
+}
+
+function formatComment(comment: TaskComment): string {
+  const session = comment.session ? ` [${comment.session}]` : "";
+  return `${formatTimestamp(comment.at)}${session} ${comment.text}`;
+}
+
+/**
+ * Everything about one task, as shown by task_get and `tasks get`.
+ * `external` should cover the blockers of the task and its subtasks.
+ */
+function formatTaskDetails(data: TaskProject, task: Task, external: ExternalTasks = new Map()): string {
+  const waitingOn = openBlockers(task, data.tasks, external);
+  const lines = [
+    `Task #${task.id}: ${task.subject}${formatProgress(task, data.tasks)}`,
+    `Status: ${task.status}`,
+    task.claim
+      ? `Claimed by: ${task.claim.owner} until ${task.claim.expires}${isClaimActive(task.claim) ? "" : " (expired)"}`
+      : null,
+    task.parentId ? `Parent: #${task.parentId}` : null,
+    task.blockedBy.length > 0
+      ? `Depends on: ${task.blockedBy.map(id => formatBlocker(id, external)).join(", ")}`
+      : null,
+    waitingOn.length > 0 ? `Waiting on: ${waitingOn.map(id => formatBlocker(id, external)).join(", ")}` : null,
+    task.blocks.length > 0 ? `Blocks: ${task.blocks.map(id => formatBlocker(id, external)).join(", ")}` : null,
+    task.priority ? `Priority: ${task.priority}` : null,
+    task.assignee ? `Assignee: ${task.assignee}` : null,
+    task.due ? `Due: ${task.due}` : null,
+    task.estimate !== undefined ? `Estimate: ${task.estimate}h` : null,
+    task.tags && task.tags.length > 0 ? `Tags: ${task.tags.join(", ")}` : null,
+    task.createdAt ? `Created: ${task.createdAt}` : null,
+    task.updatedAt ? `Updated: ${task.updatedAt}` : null,
+    task.completedAt ? `Completed: ${task.completedAt}` : null,
+    task.archivedAt ? `Archived: ${task.archivedAt}` : null,
+    task.notes ? `Notes: ${task.notes}` : null,
+  ].filter((line): line is string => line !== null);
+
+  if (task.comments && task.comments.length > 0) {
+    lines.push("Comments:", ...task.comments.map(c => `  ${formatComment(c)}`));
+  }
+
+  const subtasks = subtreeIds(data.tasks, task.id).slice(1);
+  if (subtasks.length > 0) {
+    const subtree = formatTaskList(data, data.tasks.filter(t => subtasks.includes(t.id)), external);
+    lines.push("Subtasks:", ...subtree.split("\n").slice(1).map(line => `  ${line}`));
+  }
+  return lines.join("\n");
+}
+
+function formatEvent(event: TaskEvent): string {
+  const session = event.session ? ` [${event.session}]` : "";
+  const undo = event.undoes ? "undo: " : "";
+  return `${formatTimestamp(event.at)}${session} #${event.taskId} ${undo}${describeEvent(event)}`;
+}
+
+/**
+ * Checkpoint body for `session`: tasks in progress that it holds or that
+ * `events` (its changes) touched, with their latest comment or notes, and
+ * every task `events` touched. Null when there's nothing to record.
+ */
+function formatCheckpoint(data: TaskProject, events: TaskEvent[], session: string | undefined, at: string): string | null {
+  const touched = new Set(events.map(e => e.taskId));
+  const inProgress = data.tasks.filter(t =>
+    t.status === "in_progress" && (t.claim?.owner === session || touched.has(t.id))
+  );
+  const changed = new Map<string, string>();
+  for (const event of events) {
+    const task = data.tasks.find(t => t.id === event.taskId);
+    changed.set(event.taskId, task
+      ? `#${task.id} ${task.subject} (${task.status})`
+      : `#${event.taskId} ${(event.before ?? event.after)!.subject} (deleted)`);
+  }
+  if (inProgress.length === 0 && changed.size === 0) {
+    return null;
+  }
+
+  const lines = [`**Checkpoint ${formatTimestamp(at)}**`];
+  for (const task of inProgress) {
+    const latest = (task.comments?.at(-1)?.text ?? task.notes).replace(/\s+/g, " ").trim();
+    const note = latest.length > 160 ? `${latest.slice(0, 159)}…` : latest;
+    lines.push(`- In progress: #${task.id} ${task.subject}${note ? ` — ${note}` : ""}`);
+  }
+  if (changed.size > 0) {
+    lines.push(`- Changed this session: ${[...changed.values()].join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+function formatCheckpoints(checkpoints: Checkpoint[]): string {
+  if (checkpoints.length === 0) {
+    return "";
+  }
+
+  const lines = ["<task-checkpoint>", "Where work stood before the last context compaction:"];
+  for (const checkpoint of checkpoints) {
+    lines.push(`\n## ${checkpoint.project}`, checkpoint.body);
+  }
+  lines.push("</task-checkpoint>");
+  return lines.join("\n");
+}
+
+const DEFAULT_INJECT_OPTIONS: InjectOptions = {
+  maxProjects: 5,
+  maxChars: 2000,
+  pinned: [],
+  include: [],
+  exclude: [],
+  detail: "ready",
+};
+
+// Tasks listed per group before the rest are summarized as "…and N more"
+const INJECT_LIST_LIMIT = 5;
+
+function matchesGlob(name: string, glob: string): boolean {
+  const pattern = glob
+    .split("*")
+    .map(part => part.split("?").map(escapeRegExp).join("."))
+    .join(".*");
+  return new RegExp(`^${pattern}$`).test(name);
+}
+
+/**
+ * Projects to inject, most relevant first: pinned projects in the order
+ * given, then the rest by most recent update.
+ */
+function selectInjectedProjects(projects: TaskProject[], opts: InjectOptions): TaskProject[] {
+  const rank = (p: TaskProject) => {
+    const index = opts.pinned.indexOf(p.project);
+    return index >= 0 ? index : opts.pinned.length;
+  };
+  return projects
+    .filter(p =>
+      opts.pinned.includes(p.project) || (
+        (opts.include.length === 0 || opts.include.some(glob => matchesGlob(p.project, glob))) &&
+        !opts.exclude.some(glob => matchesGlob(p.project, glob))
+      )
+    )
+    .sort((a, b) => rank(a) - rank(b) || b.updated.localeCompare(a.updated));
+}
+
+function formatInjectList(title: string, items: string[]): string[] {
+  if (items.length === 0) {
+    return [];
+  }
+  const lines = [`${title}:`, ...items.slice(0, INJECT_LIST_LIMIT).map(item => `  - ${item}`)];
+  if (items.length > INJECT_LIST_LIMIT) {
+    lines.push(`  - …and ${items.length - INJECT_LIST_LIMIT} more`);
+  }
+  return lines;
+}
+
+function formatProjectContext(project: TaskProject, detail: InjectDetail, external: ExternalTasks): string {
+  const count = (status: TaskStatus) => project.tasks.filter(t => t.status === status).length;
+  const lines = [`\n## ${project.project}`];
+
+  if (detail !== "counts") {
+    lines.push(...formatInjectList(
+      "In Progress",
+      project.tasks.filter(t => t.status === "in_progress").map(t => `#${t.id}: ${t.subject}${formatClaim(t)}`),
+    ));
+    lines.push(...formatInjectList(
+      "Next Up",
+      rankReadyTasks([project], external).map(({ task }) => `#${task.id}: ${task.subject}${formatTaskMeta(task)}`),
+    ));
+  }
+  if (detail === "blockers") {
+    lines.push(...formatInjectList(
+      "Blocked",
+      project.tasks
+        .filter(t => t.status !== "completed" && openBlockers(t, project.tasks, external).length > 0)
+        .map(t => `#${t.id}: ${t.subject} (waiting on ${formatIds(openBlockers(t, project.tasks, external))})`),
+    ));
+  }
+
+  lines.push(
+    `${count("in_progress")} in progress, ${count("pending")} pending, ` +
+    `${count("blocked")} blocked, ${count("completed")}/${project.tasks.length} completed`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Summary of active projects for the session context, kept within
+ * `maxProjects` and `maxChars`. Projects that don't fit are counted in a
+ * closing note instead. A budget too small for even that note gets an
+ * empty summary.
+ */
+function formatActiveTasksSummary(
+  projects: TaskProject[],
+  options: Partial<InjectOptions> = {},
+  external: ExternalTasks = new Map(),
+): string {
+  const opts = { ...DEFAULT_INJECT_OPTIONS, ...options };
+  const selected = selectInjectedProjects(projects, opts);
+  if (selected.length === 0) {
+    return "";
+  }
+
+  const sections = selected.slice(0, opts.maxProjects).map(p => formatProjectContext(p, opts.detail, external));
+  const render = (shown: number): string => {
+    const hidden = selected.length - shown;
+    return [
+      "<active-tasks>",
+      "Active task projects for context:",
+      ...sections.slice(0, shown),
+      hidden > 0 ? `\n(${hidden} more active project(s) not shown; use task_list to see them)` : null,
+      "</active-tasks>",
+    ].filter(line => line !== null).join("\n");
+  };
+
+  let shown = sections.length;
+  while (shown > 0 && render(shown).length > opts.maxChars) {
+    shown--;
+  }
+  const summary = render(shown);
+  return summary.length <= opts.maxChars ? summary : "";
+}
+
+function formatDuration(stats: DurationStats): string {
+  if (stats.average === null || stats.median === null) {
+    return "n/a";
+  }
+  return `avg ${stats.average.toFixed(1)}d, median ${stats.median.toFixed(1)}d (${stats.count} task(s))`;
+}
+
+function formatProjectStats(stats: ProjectStats): string {
+  const { counts, criticalPath, throughput } = stats;
+  const length = criticalPath.unit === "hours"
+    ? `${Number(criticalPath.length.toFixed(1))}h`
+    : `${criticalPath.length} task(s)`;
+  return [
+    `=== ${stats.project} ===`,
+    `Tasks: ${counts.total} total, ${counts.completed} completed, ${counts.in_progress} in progress, ` +
+      `${counts.ready} ready, ${counts.pending - counts.ready} pending (not ready), ${counts.blocked} blocked`,
+    criticalPath.taskIds.length > 0
+      ? `Critical path (${length}): ${criticalPath.taskIds.map(id => `#${id}`).join(" → ")}`
+      : "Critical path: nothing open",
+    `Throughput: ${throughput.completed} completed in the last ${throughput.days} day(s) ` +
+      `(${throughput.perWeek.toFixed(1)}/week)`,
+    `Lead time (created → completed): ${formatDuration(stats.leadTime)}`,
+    `Cycle time (started → completed): ${formatDuration(stats.cycleTime)}`,
+    `Burndown (open tasks per day): ${stats.burndown.map(d => `${d.date.slice(5)} ${d.remaining}`).join(", ")}`,
+  ].join("\n");
+}
+
+function formatStaleTask(stale: StaleTask): string {
+  const details = [
+    `${stale.kind}: ${stale.task.status.replace("_", " ")}, no update for ${stale.days} day(s)`,
+    stale.task.claim ? `held by ${stale.task.claim.owner}` : null,
+    stale.stalledBlockers.length > 0 ? `waiting on stalled ${formatIds(stale.stalledBlockers)}` : null,
+  ].filter(Boolean);
+  return `${stale.project} #${stale.task.id}: ${stale.task.subject} [${details.join("; ")}]`;
+}
+
+/**
+ * The opt-in nudge injected at session start, at most INJECT_LIST_LIMIT tasks.
+ */
+function formatStaleReminder(stale: StaleTask[]): string {
+  return [
+    "<stale-tasks>",
+    ...formatInjectList(
+      "These tasks have not moved in a while. Update, complete, release or re-plan them (task_review lists them all)",
+      stale.map(formatStaleTask),
+    ),
+    "</stale-tasks>",
+  ].join("\n");
+}
+
+function checkProjectDependencies(
+  storage: TaskStorage,
+  project: string,
+  repair?: boolean,
+): { project: string; issues: DependencyIssue[]; error?: string; text: string } {
+  let issues: DependencyIssue[];
+  try {
+    issues = storage.checkDependencies(project, { repair });
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return { project, issues: [], error, text: `=== ${project} ===\nerror: ${error}` };
+  }
+
+  const lines = [`=== ${project} ===`];
+  if (issues.length === 0) {
+    lines.push("No dependency issues");
+  }
+  for (const issue of issues) {
+    lines.push(`${repair ? `fixed ${issue.kind}` : issue.kind}: ${issue.message}`);
+  }
+  return { project, issues, text: lines.join("\n") };
+}
+
+/**
+ * Apply `update` as one change and describe each part of it (subject,
+ * attributes, blockers, status, notes, comment), cascades included.
+ */
+function updateTask(storage: TaskStorage, project: string, taskId: string, update: TaskUpdate): string[] {
+  const { status, subject, notes, comment, blockedBy, priority, tags, assignee, due, estimate } = update;
+  const results: string[] = [];
+  const { task, status: statusResult } = storage.updateTask(project, taskId, update);
+
+  if (subject !== undefined) {
+    results.push(`Task #${taskId} renamed: ${subject}`);
+  }
+
+  if ([priority, tags, assignee, due, estimate].some(v => v !== undefined)) {
+    results.push(`Task #${taskId} updated:${formatTaskMeta(task) || " (no attributes)"}`);
+  }
+
+  for (const blockerId of blockedBy ?? []) {
+    results.push(`Task #${taskId} blocked by ${formatTaskRef(normalizeTaskRef(blockerId, project))}`);
+  }
+
+  if (statusResult) {
+    const { unblocked, reblocked, parentsCompleted, parentsReopened } = statusResult;
+    results.push(`Task #${taskId} status: ${status}`);
+
+    for (const id of unblocked) {
+      results.push(`Task ${formatTaskRef(id)} unblocked!`);
+    }
+    for (const id of reblocked) {
+      results.push(`Task ${formatTaskRef(id)} blocked again (#${taskId} was reopened)`);
+    }
+    for (const id of parentsCompleted) {
+      results.push(`Parent task #${id} completed (all subtasks done)`);
+    }
+    for (const id of parentsReopened) {
+      results.push(`Parent task #${id} reopened`);
+    }
+  }
+
+  if (notes !== undefined) {
+    results.push(`Notes updated for task #${taskId}`);
+  }
+
+  if (comment !== undefined) {
+    results.push(`Comment added to task #${taskId}`);
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Export Formats
+// ============================================================================
+
+type ExportFormat = "md" | "mermaid" | "csv" | "json";
+
+const EXPORT_FORMATS: ExportFormat[] = ["md", "mermaid", "csv", "json"];
+
+// Fill colors for Mermaid nodes, one class per status
+const MERMAID_STATUS_STYLES: Record<TaskStatus, string> = {
+  pending: "fill:#ffffff,stroke:#6c757d",
+  in_progress: "fill:#fff3cd,stroke:#ffc107",
+  completed: "fill:#d4edda,stroke:#28a745",
+  blocked: "fill:#f8d7da,stroke:#dc3545",
+};
+
+const CSV_COLUMNS = [
+  "id", "subject", "status", "parentId", "blockedBy", "blocks", "priority", "tags",
+  "assignee", "due", "estimate", "createdAt", "updatedAt", "completedAt", "notes",
+] as const;
+
+/**
+ * Tasks in tree order (parents before their subtasks) with their depth.
+ * Tasks caught in a parent loop come last, at depth 0.
+ */
+function taskTree(tasks: Task[]): Array<{ task: Task; depth: number }> {
+  const ids = new Set(tasks.map(t => t.id));
+  const ordered: Array<{ task: Task; depth: number }> = [];
+  const seen = new Set<string>();
+
+  const visit = (task: Task, depth: number): void => {
+    if (seen.has(task.id)) return;
+    seen.add(task.id);
+    ordered.push({ task, depth });
+    for (const child of tasks.filter(t => t.parentId === task.id)) {
+      visit(child, depth + 1);
+    }
+  };
+
+  for (const task of tasks.filter(t => !t.parentId || !ids.has(t.parentId))) {
+    visit(task, 0);
+  }
+  for (const task of tasks) {
+    visit(task, 0);
+  }
+  return ordered;
+}
+
+/**
+ * A GitHub-style checklist, nested by subtask. Only completed tasks are
+ * checked; other statuses and open blockers are spelled out after the subject.
+ */
+function formatMarkdownChecklist(data: TaskProject, external: ExternalTasks = new Map()): string {
+  const lines = [`## ${data.project}`, ""];
+  for (const { task, depth } of taskTree(data.tasks)) {
+    const state = [
+      task.status === "in_progress" ? "in progress" : null,
+      openBlockers(task, data.tasks, external).length > 0
+        ? `blocked by ${openBlockers(task, data.tasks, external).map(formatTaskRef).join(", ")}`
+        : null,
+    ].filter(Boolean);
+    lines.push(
+      `${"  ".repeat(depth)}- [${task.status === "completed" ? "x" : " "}] #${task.id}: ${task.subject}` +
+      `${formatTaskMeta(task)}${state.length > 0 ? ` _(${state.join("; ")})_` : ""}`
+    );
+  }
+  if (data.tasks.length === 0) {
+    lines.push("_No tasks_");
+  }
+  return lines.join("\n");
+}
+
+function mermaidNodeId(ref: string): string {
+  const parsed = parseTaskRef(ref);
+  return parsed ? `x_${parsed.project.replace(/-/g, "_")}_${parsed.taskId}` : `t${ref}`;
+}
+
+function mermaidLabel(text: string): string {
+  return `"${text.replace(/"/g, "#quot;")}"`;
+}
+
+/**
+ * A top-down Mermaid flowchart of the dependency DAG: an arrow from each
+ * blocker to the tasks waiting on it, nodes colored by status. Tasks in other
+ * projects appear with their qualified reference.
+ */
+function formatMermaidGraph(data: TaskProject, external: ExternalTasks = new Map()): string {
+  const lines = ["graph TD"];
+  const externalRefs = [...new Set(data.tasks.flatMap(t => [...t.blockedBy, ...t.blocks]).filter(isExternalRef))];
+
+  for (const task of data.tasks) {
+    lines.push(`  ${mermaidNodeId(task.id)}[${mermaidLabel(`#${task.id}: ${task.subject}`)}]:::${task.status}`);
+  }
+  for (const ref of externalRefs) {
+    const task = external.get(ref);
+    const label = mermaidLabel(task ? `${ref}: ${task.subject}` : ref);
+    lines.push(`  ${mermaidNodeId(ref)}[${label}]:::${task?.status ?? "pending"}`);
+  }
+
+  for (const task of data.tasks) {
+    for (const blocker of task.blockedBy) {
+      lines.push(`  ${mermaidNodeId(blocker)} --> ${mermaidNodeId(task.id)}`);
+    }
+    // Edges to dependents elsewhere are only recorded on this side
+    for (const dependent of task.blocks.filter(isExternalRef)) {
+      lines.push(`  ${mermaidNodeId(task.id)} --> ${mermaidNodeId(dependent)}`);
+    }
+  }
+
+  for (const [status, style] of Object.entries(MERMAID_STATUS_STYLES)) {
+    lines.push(`  classDef ${status} ${style}`);
+  }
+  return lines.join("\n");
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One row per task. List columns are space-separated, except tags, which are
+ * separated by ";".
+ */
+function formatTasksCsv(data: TaskProject): string {
+  const rows = data.tasks.map(task => {
+    const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+      id: task.id,
+      subject: task.subject,
+      status: task.status,
+      parentId: task.parentId ?? "",
+      blockedBy: task.blockedBy.join(" "),
+      blocks: task.blocks.join(" "),
+      priority: task.priority ?? "",
+      tags: (task.tags ?? []).join(";"),
+      assignee: task.assignee ?? "",
+      due: task.due ?? "",
+      estimate: task.estimate !== undefined ? String(task.estimate) : "",
+      createdAt: task.createdAt ?? "",
+      updatedAt: task.updatedAt ?? "",
+      completedAt: task.completedAt ?? "",
+      notes: task.notes,
+    };
+    return CSV_COLUMNS.map(column => csvField(values[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+/**
+ * The project with every task field present (null when unset) in a fixed
+ * order, so other tools don't have to know which fields are optional.
+ */
+function formatTasksJson(data: TaskProject): string {
+  const normalized = {
+    project: data.project,
+    status: data.status,
+    created: data.created,
+    updated: data.updated,
+    tasks: data.tasks.map(task => ({
+      id: task.id,
+      subject: task.subject,
+      status: task.status,
+      parentId: task.parentId ?? null,
+      blockedBy: task.blockedBy,
+      blocks: task.blocks,
+      priority: task.priority ?? "normal",
+      tags: task.tags ?? [],
+      assignee: task.assignee ?? null,
+      due: task.due ?? null,
+      estimate: task.estimate ?? null,
+      notes: task.notes,
+      comments: task.comments ?? [],
+      createdAt: task.createdAt ?? null,
+      updatedAt: task.updatedAt ?? null,
+      completedAt: task.completedAt ?? null,
+      claim: task.claim ?? null,
+      archivedAt: task.archivedAt ?? null,
+    })),
+  };
+  return `${JSON.stringify(normalized, null, 2)}\n`;
+}
+
+function formatProjectExport(data: TaskProject, format: ExportFormat, external: ExternalTasks = new Map()): string {
+  switch (format) {
+    case "md":
+      return formatMarkdownChecklist(data, external);
+    case "mermaid":
+      return formatMermaidGraph(data, external);
+    case "csv":
+      return formatTasksCsv(data);
+    case "json":
+      return formatTasksJson(data);
+    default:
+      throw new Error(`Unknown export format '${format}' (expected ${EXPORT_FORMATS.join(", ")})`);
+  }
+}
+
+// ============================================================================
+// Source Import
+// ============================================================================
+
+// A TODO comment or checklist item found in a file
+type SourceItem = {
+  file: string;
+  line: number;
+  text: string;
+  done: boolean;
+  tag?: string;
+};
 
-    const maxId = data.tasks.reduce((max, t) => Math.max(max, parseInt(t.id) || 0), 0);
-    const task: Task = {
-      id: String(maxId + 1),
-      subject,
-      status: "pending",
-      blockedBy: [],
-      blocks: [],
-      notes: "",
-    };
+const TODO_PATTERN = /\b(TODO|FIXME)\b(?:\([^)]*\))?:\s*(.*?)\s*(?:\*\/|-->)?\s*$/;
+const SOURCE_NOTE_PATTERN = /^Source: (.+):(\d+)$/m;
+const SCAN_SKIP_DIRS = new Set(["node_modules", "dist", "build", "coverage", "vendor"]);
+const SCAN_MAX_FILE_BYTES = 1024 * 1024;
 
-    data.tasks.push(task);
-    this.saveProject(data);
-    return task;
-  }
+/**
+ * `file` relative to `root`, with forward slashes so notes read the same on
+ * every platform.
+ */
+function sourcePath(file: string, root: string): string {
+  return path.relative(root, file).split(path.sep).join("/");
+}
 
-  updateTaskStatus(project: string, taskId: string, status: TaskStatus): { task: Task; unblocked: string[] } {
-    const data = this.getProject(project);
-    if (!data) {
-      throw new Error(`Project '${project}' not found`);
-    }
+function formatTaskSource(item: Pick<SourceItem, "file" | "line">): string {
+  return `Source: ${item.file}:${item.line}`;
+}
 
-    const task = data.tasks.find(t => t.id === taskId);
-    if (!task) {
-      throw new Error(`Task '${taskId}' not found in project '${project}'`);
-    }
+function parseTaskSource(notes: string): { file: string; line: number } | null {
+  const match = notes.match(SOURCE_NOTE_PATTERN);
+  return match ? { file: match[1], line: parseInt(match[2]) } : null;
+}
 
-    task.status = status;
-    const unblocked: string[] = [];
+function sourceKey(file: string, text: string): string {
+  return `${file}\0${text}`;
+}
 
-    // If completing, check for cascading unblocks
-    if (status === "completed") {
-      for (const t of data.tasks) {
-        if (t.blockedBy.includes(taskId)) {
-          t.blockedBy = t.blockedBy.filter(id => id !== taskId);
-          if (t.blockedBy.length === 0 && t.status === "blocked") {
-            t.status = "pending";
-            unblocked.push(t.id);
-          }
+// Whether `file` lies inside `scope` (a file or directory; "" is everything)
+function inSourceScope(file: string, scope: string): boolean {
+  return scope === "" || file === scope || file.startsWith(`${scope}/`);
+}
+
+/**
+ * Every `TODO:` and `FIXME:` comment in text files under `dir`. Hidden and
+ * dependency/build directories, binary files and files over 1 MB are skipped.
+ */
+function scanTodoComments(dir: string, root: string): SourceItem[] {
+  const items: SourceItem[] = [];
+  const visit = (current: string): void => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const full = path.join(current, entry.name);
+      if (entry.name.startsWith(".")) continue;
+      if (entry.isDirectory()) {
+        if (!SCAN_SKIP_DIRS.has(entry.name)) {
+          visit(full);
         }
+        continue;
       }
+      if (!entry.isFile() || fs.statSync(full).size > SCAN_MAX_FILE_BYTES) continue;
+
+      const content = fs.readFileSync(full, "utf-8");
+      if (content.includes("\0")) continue;
+      content.split("\n").forEach((line, i) => {
+        const match = line.match(TODO_PATTERN);
+        if (match && match[2]) {
+          items.push({ file: sourcePath(full, root), line: i + 1, text: match[2], done: false, tag: match[1].toLowerCase() });
+        }
+      });
     }
+  };
 
-    this.saveProject(data);
-    return { task, unblocked };
+  if (fs.statSync(dir).isDirectory()) {
+    visit(dir);
   }
+  return items;
+}
 
-  setBlocker(project: string, taskId: string, blockerId: string): void {
-    const data = this.getProject(project);
-    if (!data) {
-      throw new Error(`Project '${project}' not found`);
+/**
+ * `- [ ]` and `- [x]` items of a Markdown file. Links to plan tasks
+ * (`<!-- task:N -->`) are dropped from the text.
+ */
+function scanMarkdownChecklist(file: string, root: string): SourceItem[] {
+  const items: SourceItem[] = [];
+  fs.readFileSync(file, "utf-8").split("\n").forEach((line, i) => {
+    const item = parseChecklistItem(line);
+    if (item && item.text) {
+      items.push({ file: sourcePath(file, root), line: i + 1, text: item.text, done: item.checked });
     }
+  });
+  return items;
+}
 
-    const task = data.tasks.find(t => t.id === taskId);
-    const blocker = data.tasks.find(t => t.id === blockerId);
-    if (!task || !blocker) {
-      throw new Error(`Task not found`);
-    }
+// ============================================================================
+// Board
+// ============================================================================
 
-    if (!task.blockedBy.includes(blockerId)) {
-      task.blockedBy.push(blockerId);
-      task.status = "blocked";
-    }
-    if (!blocker.blocks.includes(taskId)) {
-      blocker.blocks.push(taskId);
-    }
+// How often `tasks board` checks the project for changes made elsewhere
+const BOARD_POLL_MS = 1000;
 
-    this.saveProject(data);
-  }
+const BOARD_HELP = "←→↑↓/hjkl select · Shift+←→/H L move task · 1-4 move to column · r refresh · q quit";
 
-  updateTaskNotes(project: string, taskId: string, notes: string): void {
-    const data = this.getProject(project);
-    if (!data) {
-      throw new Error(`Project '${project}' not found`);
-    }
+type BoardState = {
+  column: number;    // Index into TASK_STATUSES
+  row: number;
+  message?: string;  // Shown instead of the key help until the next key
+};
+
+type BoardAction =
+  | { kind: "move"; taskId: string; status: TaskStatus }
+  | { kind: "refresh" }
+  | { kind: "quit" };
+
+function boardColumns(data: TaskProject): Task[][] {
+  return TASK_STATUSES.map(status => data.tasks.filter(t => t.status === status));
+}
+
+// Keep the cursor on a task (or the top of an empty column)
+function clampBoardState(state: BoardState, columns: Task[][]): BoardState {
+  const column = Math.min(Math.max(state.column, 0), columns.length - 1);
+  const row = Math.min(Math.max(state.row, 0), Math.max(columns[column].length - 1, 0));
+  return { ...state, column, row };
+}
 
-    const task = data.tasks.find(t => t.id === taskId);
-    if (!task) {
-      throw new Error(`Task '${taskId}' not found`);
+/**
+ * Turn a keypress into the next cursor position and, for keys that do
+ * more than move the cursor, an action for the caller to carry out.
+ */
+function handleBoardKey(
+  state: BoardState,
+  key: string,
+  columns: Task[][],
+): { state: BoardState; action?: BoardAction } {
+  const cursor = { column: state.column, row: state.row };
+  const select = (column: number, row: number) => ({ state: clampBoardState({ column, row }, columns) });
+  const moveTo = (column: number): { state: BoardState; action?: BoardAction } => {
+    const task = columns[cursor.column]?.[cursor.row];
+    if (!task || column < 0 || column >= columns.length || column === cursor.column) {
+      return { state: cursor };
     }
+    return { state: cursor, action: { kind: "move", taskId: task.id, status: TASK_STATUSES[column] } };
+  };
 
-    task.notes = notes;
-    this.saveProject(data);
+  switch (key) {
+    case "q":
+    case "\x1b":
+    case "\x03": // Ctrl-C
+      return { state: cursor, action: { kind: "quit" } };
+    case "r":
+      return { state: cursor, action: { kind: "refresh" } };
+    case "\x1b[D":
+    case "h":
+      return select(cursor.column - 1, cursor.row);
+    case "\x1b[C":
+    case "l":
+      return select(cursor.column + 1, cursor.row);
+    case "\x1b[A":
+    case "k":
+      return select(cursor.column, cursor.row - 1);
+    case "\x1b[B":
+    case "j":
+      return select(cursor.column, cursor.row + 1);
+    case "\x1b[1;2D":
+    case "H":
+      return moveTo(cursor.column - 1);
+    case "\x1b[1;2C":
+    case "L":
+      return moveTo(cursor.column + 1);
+  }
+  if (/^[1-9]$/.test(key)) {
+    return moveTo(Number(key) - 1);
   }
+  return { state: cursor };
 }
 
-// ============================================================================
-// Formatting Helpers
-// ============================================================================
+/**
+ * The board as it fits in `size`: one column per status, the selected task
+ * in reverse video, and the selected column scrolled to keep it in view.
+ */
+function renderBoard(data: TaskProject, state: BoardState, size: { width: number; height: number }): string {
+  const columns = boardColumns(data);
+  const separator = " │ ";
+  const width = Math.max(12, Math.floor((size.width - separator.length * (columns.length - 1)) / columns.length));
+  const fit = (text: string) => text.length > width ? `${text.slice(0, width - 1)}…` : text.padEnd(width);
+  // Title, headers and rule above the tasks; a blank line and the footer below
+  const rows = Math.max(1, size.height - 5);
 
-function formatTaskList(project: TaskProject): string {
-  const lines = [`=== ${project.project} ===`];
-  for (const task of project.tasks) {
-    const statusIcon = 
-      task.status === "completed" ? "✓" :
-      task.status === "in_progress" ? "→" :
-      task.status === "blocked" ? "⊘" : " ";
-    
-    let line = `[${statusIcon}] #${task.id}: ${task.subject}`;
-    if (task.blockedBy.length > 0) {
-      line += ` (blocked by: ${task.blockedBy.join(", ")})`;
-    }
-    lines.push(line);
+  const cells = columns.map((tasks, c) => {
+    const offset = c === state.column ? Math.max(0, state.row - rows + 1) : 0;
+    return tasks.slice(offset, offset + rows).map((task, i) => {
+      const text = fit(`#${task.id} ${task.subject}${formatClaim(task)}`);
+      return c === state.column && offset + i === state.row ? `\x1b[7m${text}\x1b[0m` : text;
+    });
+  });
+
+  const lines = [
+    `${data.project} [${data.status}]`,
+    columns.map((tasks, c) => fit(`${TASK_STATUSES[c].replace("_", " ").toUpperCase()} (${tasks.length})`)).join(separator),
+    columns.map(() => "─".repeat(width)).join("─┼─"),
+  ];
+  const height = Math.max(0, ...cells.map(column => column.length));
+  for (let row = 0; row < height; row++) {
+    lines.push(cells.map(column => column[row] ?? " ".repeat(width)).join(separator));
   }
+  lines.push("", state.message ?? BOARD_HELP);
   return lines.join("\n");
 }
 
-function formatActiveTasksSummary(projects: TaskProject[]): string {
-  if (projects.length === 0) {
-    return "";
+/**
+ * Show the board full-screen until the user quits. The project is polled,
+ * so changes made by agents or other terminals show up within a second.
+ */
+function runBoard(storage: TaskStorage, project: string): Promise<void> {
+  const { stdin, stdout } = process;
+  let data = storage.getProject(project);
+  if (!data) {
+    throw new Error(`Project '${project}' not found`);
   }
+  let snapshot = JSON.stringify(data);
+  let state: BoardState = { column: 0, row: 0 };
 
-  const lines = ["<active-tasks>", "Active task projects for context:"];
-  
-  for (const project of projects) {
-    const inProgress = project.tasks.filter(t => t.status === "in_progress");
-    const pending = project.tasks.filter(t => t.status === "pending");
-    const blocked = project.tasks.filter(t => t.status === "blocked");
-    
-    lines.push(`\n## ${project.project}`);
-    
-    if (inProgress.length > 0) {
-      lines.push("In Progress:");
-      for (const t of inProgress) {
-        lines.push(`  - #${t.id}: ${t.subject}`);
-      }
+  // Whether the project changed since it was last read
+  const reload = (): boolean => {
+    const latest = storage.getProject(project);
+    if (!latest) {
+      state = { ...state, message: `Project '${project}' no longer exists` };
+      return true;
     }
-    
-    if (pending.length > 0) {
-      lines.push(`Pending: ${pending.length} tasks`);
+    const content = JSON.stringify(latest);
+    if (content === snapshot) {
+      return false;
     }
-    
-    if (blocked.length > 0) {
-      lines.push(`Blocked: ${blocked.length} tasks`);
-    }
-  }
-  
-  lines.push("</active-tasks>");
-  return lines.join("\n");
+    data = latest;
+    snapshot = content;
+    return true;
+  };
+
+  const draw = () => {
+    state = clampBoardState(state, boardColumns(data!));
+    const size = { width: stdout.columns ?? 80, height: stdout.rows ?? 24 };
+    stdout.write(`\x1b[H\x1b[2J${renderBoard(data!, state, size)}`);
+  };
+
+  return new Promise(resolve => {
+    const poll = setInterval(() => {
+      try {
+        if (reload()) draw();
+      } catch (err) {
+        state = { ...state, message: err instanceof Error ? err.message : String(err) };
+        draw();
+      }
+    }, BOARD_POLL_MS);
+
+    const onKey = (chunk: Buffer) => {
+      const { state: next, action } = handleBoardKey(state, chunk.toString(), boardColumns(data!));
+      state = next;
+      if (action?.kind === "quit") {
+        clearInterval(poll);
+        stdin.off("data", onKey);
+        stdout.off("resize", draw);
+        stdin.setRawMode(false);
+        stdin.pause();
+        stdout.write("\x1b[?25h\x1b[?1049l");
+        resolve();
+        return;
+      }
+
+      try {
+        if (action?.kind === "refresh") {
+          reload();
+        } else if (action?.kind === "move") {
+          const { unblocked } = storage.updateTaskStatus(project, action.taskId, action.status);
+          reload();
+          // Follow the task to its new column
+          const column = TASK_STATUSES.indexOf(action.status);
+          const row = boardColumns(data!)[column].findIndex(t => t.id === action.taskId);
+          const freed = unblocked.length > 0 ? `; unblocked ${formatIds(unblocked)}` : "";
+          state = { column, row, message: `Moved #${action.taskId} to ${action.status}${freed}` };
+        }
+      } catch (err) {
+        state = { ...state, message: err instanceof Error ? err.message : String(err) };
+      }
+      draw();
+    };
+
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("data", onKey);
+    stdout.on("resize", draw);
+    // Alternate screen, cursor hidden
+    stdout.write("\x1b[?1049h\x1b[?25l");
+    draw();
+  });
 }
 
 // ============================================================================
@@ -291,211 +5189,939 @@ const tasksPlugin = {
     const plansDir = api.resolvePath(cfg.plansDir ?? "plans");
     const autoInject = cfg.autoInject !== false;
     const autoSaveOnCompaction = cfg.autoSaveOnCompaction !== false;
+    const injectOptions = cfg.inject ?? {};
+    const templatesDir = api.resolvePath(cfg.templatesDir ?? "templates");
+    const staleOptions: StaleOptions = { ...DEFAULT_STALE_OPTIONS, ...cfg.stale };
+    const watchFiles = cfg.watch !== false;
+    const archiveDir = api.resolvePath(cfg.archiveDir ?? path.join(cfg.tasksDir ?? "tasks", "archive"));
+    const autoArchiveDays = cfg.autoArchiveDays ?? 0;
+
+    const backend: StorageBackend = cfg.storage === "sqlite"
+      ? new SqliteBackend(api.resolvePath(cfg.databasePath ?? path.join(cfg.tasksDir ?? "tasks", "tasks.db")))
+      : new JsonBackend(tasksDir);
+    const leaseMinutes = cfg.leaseMinutes ?? DEFAULT_LEASE_MINUTES;
+    const warn = (message: string) => api.logger.warn?.(`tasks: ${message}`);
+    // What the plugin last wrote to each file, so the watcher skips our own writes
+    const ownWrites = new Map<string, string>();
+    const onWrite = (project: string, file: "tasks" | "plan", content: string) => {
+      ownWrites.set(`${file}:${project}`, contentDigest(content));
+    };
+    const storage = new TaskStorage(tasksDir, plansDir, { backend, leaseMinutes, archiveDir, warn, onWrite });
 
-    const storage = new TaskStorage(tasksDir, plansDir);
+    // Tools that change tasks get a storage tagged with the calling session,
+    // so the activity log shows where each change came from
+    const storageFor = (ctx: { sessionKey?: string }) =>
+      ctx.sessionKey
+        ? new TaskStorage(tasksDir, plansDir, { backend, leaseMinutes, archiveDir, warn, onWrite, session: ctx.sessionKey })
+        : storage;
 
-    api.logger.info(`tasks: plugin registered (tasks: ${tasksDir}, plans: ${plansDir})`);
+    api.logger.info(`tasks: plugin registered (tasks: ${tasksDir} [${backend.kind}], plans: ${plansDir})`);
 
     // ========================================================================
     // Tools
     // ========================================================================
 
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "task_create",
+        label: "Task Create",
+        description: "Create a new task in a project. Creates the project if it doesn't exist.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name (kebab-case)" }),
+          subject: Type.String({ description: "Task description" }),
+          blockedBy: Type.Optional(Type.Array(Type.String(), {
+            description: "Task IDs this is blocked by; use project#id (e.g. api#4) for tasks in other projects",
+          })),
+          parentId: Type.Optional(Type.String({ description: "Parent task ID, to create a subtask" })),
+          priority: Type.Optional(PrioritySchema),
+          tags: Type.Optional(Type.Array(Type.String(), { description: "Tags/labels" })),
+          assignee: Type.Optional(Type.String({ description: "Agent or person responsible" })),
+          due: Type.Optional(Type.String({ description: "Due date (YYYY-MM-DD)" })),
+          estimate: Type.Optional(Type.Number({ description: "Estimated effort in hours" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, subject, blockedBy, parentId, ...fields } = params as { 
+            project: string; 
+            subject: string; 
+            blockedBy?: string[];
+            parentId?: string;
+          } & TaskFields;
+          const project = validateProjectName(projectName);
+
+          // Unknown blocker IDs fail the whole call so the agent can fix them
+          const task = storage.addTask(project, subject, { blockedBy, parentId, ...fields });
+          const under = task.parentId ? ` (subtask of #${task.parentId})` : "";
+
+          return {
+            content: [{ type: "text", text: `Created task #${task.id}: ${subject}${under}${formatTaskMeta(task)}` }],
+            details: { taskId: task.id, project },
+          };
+        },
+      };
+    }, { name: "task_create" });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "task_update",
+        label: "Task Update",
+        description:
+          "Update a task's status, subject, notes or attributes. Handles cascading unblocks automatically. " +
+          "Pass null to clear priority, tags, assignee, due or estimate.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name" }),
+          taskId: Type.String({ description: "Task ID" }),
+          status: Type.Optional(Type.Union([
+            Type.Literal("pending"),
+            Type.Literal("in_progress"),
+            Type.Literal("completed"),
+            Type.Literal("blocked"),
+          ], { description: "New status" })),
+          subject: Type.Optional(Type.String({ description: "New task description" })),
+          notes: Type.Optional(Type.String({ description: "Task notes (replaces the current notes)" })),
+          comment: Type.Optional(Type.String({ description: "Append a timestamped comment, keeping earlier ones" })),
+          priority: Type.Optional(Type.Union([PrioritySchema, Type.Null()])),
+          tags: Type.Optional(Type.Union([Type.Array(Type.String()), Type.Null()], { description: "Replace tags" })),
+          assignee: Type.Optional(Type.Union([Type.String(), Type.Null()], { description: "Agent or person responsible" })),
+          due: Type.Optional(Type.Union([Type.String(), Type.Null()], { description: "Due date (YYYY-MM-DD)" })),
+          estimate: Type.Optional(Type.Union([Type.Number(), Type.Null()], { description: "Estimated effort in hours" })),
+          blockedBy: Type.Optional(Type.Array(Type.String(), {
+            description: "Add blockers: task IDs, or project#id (e.g. api#4) for tasks in other projects",
+          })),
+          force: Type.Optional(Type.Boolean({ description: "Change the task even though another session claimed it" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, taskId, ...update } = params as { project: string; taskId: string } & TaskUpdate;
+          const project = validateProjectName(projectName);
+          const { status, notes, comment } = update;
+
+          const results = updateTask(storage, project, taskId, update);
+
+          return {
+            content: [{ type: "text", text: results.join("\n") }],
+            details: { project, taskId, status, notes, comment },
+          };
+        },
+      };
+    }, { name: "task_update" });
+
     api.registerTool({
-      name: "task_create",
-      label: "Task Create",
-      description: "Create a new task in a project. Creates the project if it doesn't exist.",
+      name: "task_list",
+      label: "Task List",
+      description: "List tasks for a project or all active projects.",
       parameters: Type.Object({
-        project: Type.String({ description: "Project name (kebab-case)" }),
-        subject: Type.String({ description: "Task description" }),
-        blockedBy: Type.Optional(Type.Array(Type.String(), { description: "Task IDs this is blocked by" })),
+        project: Type.Optional(Type.String({ description: "Project name (omit for all active)" })),
+        status: Type.Optional(Type.String({ description: "Filter by status" })),
+        priority: Type.Optional(PrioritySchema),
+        tag: Type.Optional(Type.String({ description: "Filter by tag" })),
+        assignee: Type.Optional(Type.String({ description: "Filter by assignee" })),
+        dueBefore: Type.Optional(Type.String({ description: "Only tasks due on or before this date (YYYY-MM-DD)" })),
+        includeArchived: Type.Optional(Type.Boolean({ description: "Include archived tasks and projects" })),
       }),
       async execute(_id, params) {
-        const { project, subject, blockedBy } = params as { 
-          project: string; 
-          subject: string; 
-          blockedBy?: string[];
-        };
+        const { project: projectName, includeArchived, ...filter } = params as {
+          project?: string;
+          includeArchived?: boolean;
+        } & TaskFilter;
+
+        if (projectName) {
+          const project = validateProjectName(projectName);
+          const data = storage.getProject(project) ?? (includeArchived ? storage.getArchivedProject(project) : null);
+          if (!data) {
+            return {
+              content: [{ type: "text", text: `Project '${project}' not found` }],
+              details: { found: false },
+            };
+          }
+
+          const tasks = data.tasks.filter(t => matchesFilter(t, filter) && (includeArchived || !t.archivedAt));
+
+          return {
+            content: [{ type: "text", text: formatTaskList(data, tasks, storage.resolveExternalTasks(tasks)) }],
+            details: { project, taskCount: tasks.length },
+          };
+        }
 
-        const task = storage.addTask(project, subject);
-        
-        if (blockedBy && blockedBy.length > 0) {
-          for (const blockerId of blockedBy) {
-            try {
-              storage.setBlocker(project, task.id, blockerId);
-            } catch {
-              // Ignore if blocker doesn't exist
+        // Filters without a project search every active project
+        if (hasFilter(filter)) {
+          const sections: string[] = [];
+          let taskCount = 0;
+          for (const data of storage.getActiveProjects()) {
+            const tasks = data.tasks.filter(t => matchesFilter(t, filter) && (includeArchived || !t.archivedAt));
+            if (tasks.length > 0) {
+              sections.push(formatTaskList(data, tasks, storage.resolveExternalTasks(tasks)));
+              taskCount += tasks.length;
             }
           }
+
+          return {
+            content: [{ type: "text", text: sections.join("\n\n") || "No matching tasks" }],
+            details: { taskCount },
+          };
+        }
+
+        // List all projects
+        const projects = storage.listProjects();
+        const summaries = projects.map(p => {
+          const data = storage.tryGetProject(p);
+          if (!data) return `${p}: (error reading)`;
+          const completed = data.tasks.filter(t => t.status === "completed").length;
+          return `${p} [${data.status}]: ${completed}/${data.tasks.length} completed`;
+        });
+        if (includeArchived) {
+          for (const p of storage.listArchivedProjects()) {
+            summaries.push(`${p} [archived]`);
+          }
         }
 
         return {
-          content: [{ type: "text", text: `Created task #${task.id}: ${subject}` }],
-          details: { taskId: task.id, project },
+          content: [{ type: "text", text: summaries.join("\n") || "No projects found" }],
+          details: { projectCount: projects.length },
         };
       },
     });
 
     api.registerTool({
-      name: "task_update",
-      label: "Task Update",
-      description: "Update a task's status or notes. Handles cascading unblocks automatically.",
+      name: "task_search",
+      label: "Task Search",
+      description:
+        "Search task subjects, notes, comments and plans across all projects (case-insensitive, " +
+        "every word must match). Best matches first, with the matching text highlighted.",
       parameters: Type.Object({
-        project: Type.String({ description: "Project name" }),
-        taskId: Type.String({ description: "Task ID" }),
+        query: Type.String({ description: "Words to search for" }),
+        project: Type.Optional(Type.String({ description: "Only search this project" })),
         status: Type.Optional(Type.Union([
           Type.Literal("pending"),
           Type.Literal("in_progress"),
           Type.Literal("completed"),
           Type.Literal("blocked"),
-        ], { description: "New status" })),
-        notes: Type.Optional(Type.String({ description: "Task notes" })),
+        ], { description: "Only tasks with this status" })),
+        projectStatus: Type.Optional(Type.Union([
+          Type.Literal("active"),
+          Type.Literal("paused"),
+          Type.Literal("completed"),
+        ], { description: "Only projects with this status" })),
+        tags: Type.Optional(Type.Array(Type.String(), { description: "Only tasks with all of these tags" })),
+        limit: Type.Optional(Type.Number({ description: "Maximum results (default 20)" })),
+        includeArchived: Type.Optional(Type.Boolean({ description: "Also search archived projects and tasks" })),
       }),
       async execute(_id, params) {
-        const { project, taskId, status, notes } = params as {
-          project: string;
-          taskId: string;
-          status?: TaskStatus;
-          notes?: string;
+        const { query, limit, ...opts } = params as { query: string } & SearchOptions;
+
+        const hits = storage.search(query, { ...opts, limit: limit ?? 20 });
+
+        return {
+          content: [{
+            type: "text",
+            text: hits.length > 0
+              ? [`Found ${hits.length} match(es) for "${query}":`, ...hits.map(formatSearchHit)].join("\n")
+              : `No matches for "${query}"`,
+          }],
+          details: {
+            count: hits.length,
+            hits: hits.map(({ project, task, field, score, snippet }) => ({ project, taskId: task?.id, field, score, snippet })),
+          },
         };
+      },
+    });
+
+    api.registerTool({
+      name: "task_export",
+      label: "Task Export",
+      description:
+        "Export a project's tasks to share them: a Markdown checklist (md), a Mermaid dependency " +
+        "graph (mermaid), CSV, or normalized JSON.",
+      parameters: Type.Object({
+        project: Type.String({ description: "Project name" }),
+        format: Type.Optional(Type.Union([
+          Type.Literal("md"),
+          Type.Literal("mermaid"),
+          Type.Literal("csv"),
+          Type.Literal("json"),
+        ], { description: "Output format (default md)" })),
+      }),
+      async execute(_id, params) {
+        const { project: projectName, format = "md" } = params as { project: string; format?: ExportFormat };
+        const project = validateProjectName(projectName);
+
+        const data = storage.getProject(project);
+        if (!data) {
+          return {
+            content: [{ type: "text", text: `Project '${project}' not found` }],
+            details: { found: false },
+          };
+        }
 
-        const results: string[] = [];
+        return {
+          content: [{ type: "text", text: formatProjectExport(data, format, storage.resolveExternalTasks(data.tasks)) }],
+          details: { project, format, taskCount: data.tasks.length },
+        };
+      },
+    });
 
-        if (status) {
-          const { task, unblocked } = storage.updateTaskStatus(project, taskId, status);
-          results.push(`Task #${taskId} status: ${status}`);
-          
-          for (const id of unblocked) {
-            results.push(`Task #${id} unblocked!`);
-          }
+    api.registerTool({
+      name: "task_get",
+      label: "Task Get",
+      description: "Get details of a specific task.",
+      parameters: Type.Object({
+        project: Type.String({ description: "Project name" }),
+        taskId: Type.String({ description: "Task ID" }),
+      }),
+      async execute(_id, params) {
+        const { project: projectName, taskId } = params as { project: string; taskId: string };
+        const project = validateProjectName(projectName);
+
+        const data = storage.getProject(project);
+        if (!data) {
+          return {
+            content: [{ type: "text", text: `Project '${project}' not found` }],
+            details: { found: false },
+          };
         }
 
-        if (notes !== undefined) {
-          storage.updateTaskNotes(project, taskId, notes);
-          results.push(`Notes updated for task #${taskId}`);
+        const task = data.tasks.find(t => t.id === taskId);
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task '${taskId}' not found in project '${project}'` }],
+            details: { found: false },
+          };
         }
 
+        const text = formatTaskDetails(data, task, storage.resolveExternalTasks(data.tasks));
         return {
-          content: [{ type: "text", text: results.join("\n") }],
-          details: { project, taskId, status, notes },
+          content: [{ type: "text", text }],
+          details: { task },
         };
       },
     });
 
     api.registerTool({
-      name: "task_list",
-      label: "Task List",
-      description: "List tasks for a project or all active projects.",
+      name: "plan_get",
+      label: "Plan Get",
+      description: "Read a project's plan (plans/{project}.md), or a single section of it.",
       parameters: Type.Object({
-        project: Type.Optional(Type.String({ description: "Project name (omit for all active)" })),
-        status: Type.Optional(Type.String({ description: "Filter by status" })),
+        project: Type.String({ description: "Project name" }),
+        section: Type.Optional(Type.Union([
+          Type.Literal("goal"),
+          Type.Literal("phases"),
+          Type.Literal("notes"),
+        ], { description: "Only return this section" })),
       }),
       async execute(_id, params) {
-        const { project, status } = params as { project?: string; status?: string };
+        const { project: projectName, section } = params as { project: string; section?: string };
+        const project = validateProjectName(projectName);
+
+        const plan = storage.getPlan(project);
+        if (plan === null) {
+          return {
+            content: [{ type: "text", text: `Plan for '${project}' not found` }],
+            details: { found: false },
+          };
+        }
+
+        if (section) {
+          const body = getPlanSection(parsePlan(plan), section);
+          return {
+            content: [{ type: "text", text: body ?? `Section '${section}' not found in plan for '${project}'` }],
+            details: { project, section, found: body !== null },
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: plan }],
+          details: { project },
+        };
+      },
+    });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "plan_update",
+        label: "Plan Update",
+        description:
+          "Replace sections of a project's plan. Checklist items (- [ ] / - [x]) under Phases are " +
+          "synced with tasks: new items create tasks, and checking an item completes its task.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name" }),
+          goal: Type.Optional(Type.String({ description: "New Goal section (markdown)" })),
+          phases: Type.Optional(Type.String({ description: "New Phases section (markdown checklist)" })),
+          notes: Type.Optional(Type.String({ description: "New Notes section (markdown)" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, goal, phases, notes } = params as {
+            project: string;
+            goal?: string;
+            phases?: string;
+            notes?: string;
+          };
+          const project = validateProjectName(projectName);
+
+          const { created, completed, reopened, errors } = storage.updatePlan(project, { goal, phases, notes });
+
+          const results = [`Plan updated for '${project}'`];
+          for (const task of created) {
+            results.push(`Created task #${task.id}: ${task.subject}`);
+          }
+          for (const id of completed) {
+            results.push(`Task #${id} completed`);
+          }
+          for (const id of reopened) {
+            results.push(`Task #${id} reopened`);
+          }
+          for (const error of errors) {
+            results.push(`Not applied: ${error}`);
+          }
+
+          return {
+            content: [{ type: "text", text: results.join("\n") }],
+            details: { project, created: created.map(t => t.id), completed, reopened },
+          };
+        },
+      };
+    }, { name: "plan_update" });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "task_delete",
+        label: "Task Delete",
+        description: "Delete a task. References to it are removed and tasks it was blocking are unblocked.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name" }),
+          taskId: Type.String({ description: "Task ID" }),
+          force: Type.Optional(Type.Boolean({ description: "Delete the task even though another session claimed it" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, taskId, force } = params as { project: string; taskId: string; force?: boolean };
+          const project = validateProjectName(projectName);
+
+          const { task, unblocked } = storage.deleteTask(project, taskId, { force });
+          const results = [`Deleted task #${taskId}: ${task.subject}`];
+          for (const id of unblocked) {
+            results.push(`Task ${formatTaskRef(id)} unblocked!`);
+          }
+
+          return {
+            content: [{ type: "text", text: results.join("\n") }],
+            details: { project, taskId, unblocked },
+          };
+        },
+      };
+    }, { name: "task_delete" });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "task_move",
+        label: "Task Move",
+        description:
+          "Move a task and its subtasks to another project (created if needed). They get new IDs there; " +
+          "dependencies on tasks in the old project are dropped.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Current project name" }),
+          taskId: Type.String({ description: "Task ID" }),
+          toProject: Type.String({ description: "Destination project name" }),
+          force: Type.Optional(Type.Boolean({ description: "Move the tasks even though another session claimed them" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, taskId, toProject: toProjectName, force } = params as {
+            project: string;
+            taskId: string;
+            toProject: string;
+            force?: boolean;
+          };
+          const project = validateProjectName(projectName);
+          const toProject = validateProjectName(toProjectName);
+
+          const { task, idMap, unblocked, droppedDependencies } = storage.moveTask(project, taskId, toProject, { force });
+          const results = [`Moved ${project} #${taskId} → ${toProject} #${task.id}: ${task.subject}`];
+          for (const [oldId, newId] of Object.entries(idMap)) {
+            if (oldId !== taskId) {
+              results.push(`  subtask #${oldId} → #${newId}`);
+            }
+          }
+          if (droppedDependencies.length > 0) {
+            results.push(`Dropped dependencies on ${project} tasks: ${droppedDependencies.join(", ")}`);
+          }
+          for (const id of unblocked) {
+            results.push(isExternalRef(id) ? `Task ${id} unblocked!` : `Task ${project} #${id} unblocked!`);
+          }
+
+          return {
+            content: [{ type: "text", text: results.join("\n") }],
+            details: { project, taskId, toProject, newTaskId: task.id, idMap, unblocked, droppedDependencies },
+          };
+        },
+      };
+    }, { name: "task_move" });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "task_reorder",
+        label: "Task Reorder",
+        description:
+          "Change where a task is listed among its siblings (tasks with the same parent). " +
+          "Pass before to put it ahead of that task, or leave it out to put it last. IDs don't change.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name" }),
+          taskId: Type.String({ description: "Task ID" }),
+          before: Type.Optional(Type.String({ description: "ID of the sibling it should come before" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, taskId, before } = params as { project: string; taskId: string; before?: string };
+          const project = validateProjectName(projectName);
+
+          const siblings = storage.reorderTask(project, taskId, before);
+          return {
+            content: [{ type: "text", text: `Reordered: ${siblings.map(t => `#${t.id}`).join(", ")}` }],
+            details: { project, taskId, before, order: siblings.map(t => t.id) },
+          };
+        },
+      };
+    }, { name: "task_reorder" });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      const templates = listTemplates(templatesDir);
+      return {
+        name: "project_create",
+        label: "Project Create",
+        description:
+          "Create a project, optionally from a template that sets up its plan and a pre-wired task graph. " +
+          "Fails if the project already exists.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name (kebab-case)" }),
+          template: Type.Optional(Type.String({
+            description: `Template name${templates.length > 0 ? ` (available: ${templates.join(", ")})` : ""}`,
+          })),
+          variables: Type.Optional(Type.Record(Type.String(), Type.String(), {
+            description: "Values for the template's {{placeholders}}",
+          })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, template: templateName, variables } = params as {
+            project: string;
+            template?: string;
+            variables?: Record<string, string>;
+          };
+          const project = validateProjectName(projectName);
+
+          if (!templateName) {
+            if (storage.getProject(project)) {
+              throw new Error(`Project '${project}' already exists`);
+            }
+            storage.createProject(project);
+            return {
+              content: [{ type: "text", text: `Created project '${project}'` }],
+              details: { project, taskCount: 0 },
+            };
+          }
+
+          const template = loadTemplate(templatesDir, templateName);
+          const { data, tasks } = storage.createFromTemplate(project, template, variables);
+
+          return {
+            content: [{
+              type: "text",
+              text: `Created project '${project}' from template '${templateName}' with ${tasks.length} task(s)\n\n` +
+                formatTaskList(data, data.tasks, storage.resolveExternalTasks(data.tasks)),
+            }],
+            details: { project, template: templateName, taskCount: tasks.length },
+          };
+        },
+      };
+    }, { name: "project_create" });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "project_update",
+        label: "Project Update",
+        description: "Set a project's status. Only active projects are shown at session start.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name" }),
+          status: Type.Union([
+            Type.Literal("active"),
+            Type.Literal("paused"),
+            Type.Literal("completed"),
+          ], { description: "New project status" }),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, status } = params as {
+            project: string;
+            status: TaskProject["status"];
+          };
+          const project = validateProjectName(projectName);
+
+          storage.updateProjectStatus(project, status);
+
+          return {
+            content: [{ type: "text", text: `Project '${project}' status: ${status}` }],
+            details: { project, status },
+          };
+        },
+      };
+    }, { name: "project_update" });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "project_archive",
+        label: "Project Archive",
+        description:
+          "Archive a completed project, moving its tasks, activity log and plan out of the workspace, or " +
+          "restore it. With tasks: true, archive only the project's completed tasks so task_list hides them.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name" }),
+          tasks: Type.Optional(Type.Boolean({ description: "Archive (or restore) completed tasks instead of the project" })),
+          restore: Type.Optional(Type.Boolean({ description: "Bring archived work back" })),
+          force: Type.Optional(Type.Boolean({ description: "Archive the project even though it isn't completed" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, tasks, restore, force } = params as {
+            project: string;
+            tasks?: boolean;
+            restore?: boolean;
+            force?: boolean;
+          };
+          const project = validateProjectName(projectName);
+
+          let text: string;
+          if (tasks) {
+            const changed = restore ? storage.restoreTasks(project) : storage.archiveTasks(project);
+            text = changed.length > 0
+              ? `${restore ? "Restored" : "Archived"} ${changed.length} task(s) in '${project}': ${formatIds(changed.map(t => t.id))}`
+              : `No ${restore ? "archived" : "completed"} tasks to ${restore ? "restore" : "archive"} in '${project}'`;
+          } else if (restore) {
+            const data = storage.restoreProject(project);
+            text = `Restored project '${project}' (${data.tasks.length} task(s), ${data.status})`;
+          } else {
+            const data = storage.archiveProject(project, { force });
+            text = `Archived project '${project}' (${data.tasks.length} task(s))`;
+          }
 
-        if (project) {
-          const data = storage.getProject(project);
-          if (!data) {
+          return {
+            content: [{ type: "text", text }],
+            details: { project, tasks: tasks ?? false, restore: restore ?? false },
+          };
+        },
+      };
+    }, { name: "project_archive" });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "task_next",
+        label: "Task Next",
+        description:
+          "Pick the next actionable task: pending with all blockers completed, ranked by priority, then by " +
+          "how many tasks it unblocks, then oldest first, then lowest ID. Set claim to atomically move it to in_progress.",
+        parameters: Type.Object({
+          project: Type.Optional(Type.String({ description: "Project name (omit for all active)" })),
+          claim: Type.Optional(Type.Boolean({ description: "Mark the chosen task in_progress" })),
+          limit: Type.Optional(Type.Number({ description: "Also list up to this many other ready tasks" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, claim, limit } = params as {
+            project?: string;
+            claim?: boolean;
+            limit?: number;
+          };
+          const project = projectName ? validateProjectName(projectName) : undefined;
+
+          const next = storage.nextTask(project, { claim });
+          if (!next) {
             return {
-              content: [{ type: "text", text: `Project '${project}' not found` }],
+              content: [{ type: "text", text: "No ready tasks" }],
               details: { found: false },
             };
           }
 
-          let tasks = data.tasks;
-          if (status) {
-            tasks = tasks.filter(t => t.status === status);
+          const lines = [`${claim ? "Claimed" : "Next"}: ${formatReadyTask(next)}`];
+          const others = storage.getReadyTasks(project)
+            .filter(r => r.project !== next.project || r.task.id !== next.task.id)
+            .slice(0, limit ?? 0);
+          if (others.length > 0) {
+            lines.push("Also ready:");
+            for (const r of others) {
+              lines.push(`  - ${formatReadyTask(r)}`);
+            }
           }
 
           return {
-            content: [{ type: "text", text: formatTaskList({ ...data, tasks }) }],
-            details: { project, taskCount: tasks.length },
+            content: [{ type: "text", text: lines.join("\n") }],
+            details: { found: true, claimed: Boolean(claim), project: next.project, task: next.task },
           };
-        }
+        },
+      };
+    }, { name: "task_next" });
 
-        // List all projects
-        const projects = storage.listProjects();
-        const summaries = projects.map(p => {
-          const data = storage.getProject(p);
-          if (!data) return `${p}: (error reading)`;
-          const completed = data.tasks.filter(t => t.status === "completed").length;
-          return `${p} [${data.status}]: ${completed}/${data.tasks.length} completed`;
-        });
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "task_claim",
+        label: "Task Claim",
+        description:
+          "Claim a ready task for this session: it moves to in_progress and other sessions can't change it " +
+          "until the lease expires. Claim again to renew the lease; set release to give it up.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name" }),
+          taskId: Type.String({ description: "Task ID" }),
+          release: Type.Optional(Type.Boolean({ description: "Release the claim instead" })),
+          leaseMinutes: Type.Optional(
+            Type.Number({ exclusiveMinimum: 0, description: `Lease length in minutes (default ${leaseMinutes})` }),
+          ),
+          force: Type.Optional(Type.Boolean({ description: "Take over or release another session's claim" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, taskId, release, leaseMinutes: lease, force } = params as {
+            project: string;
+            taskId: string;
+            release?: boolean;
+            leaseMinutes?: number;
+            force?: boolean;
+          };
+          const project = validateProjectName(projectName);
 
-        return {
-          content: [{ type: "text", text: summaries.join("\n") || "No projects found" }],
-          details: { projectCount: projects.length },
-        };
-      },
-    });
+          if (release) {
+            const task = storage.releaseTask(project, taskId, { force });
+            return {
+              content: [{ type: "text", text: `Released task #${taskId} (now ${task.status})` }],
+              details: { project, task },
+            };
+          }
+
+          const task = storage.claimTask(project, taskId, { force, leaseMinutes: lease });
+          const until = task.claim ? ` until ${task.claim.expires}` : "";
+          return {
+            content: [{ type: "text", text: `Claimed task #${taskId}: ${task.subject}${until}` }],
+            details: { project, task },
+          };
+        },
+      };
+    }, { name: "task_claim" });
 
     api.registerTool({
-      name: "task_get",
-      label: "Task Get",
-      description: "Get details of a specific task.",
+      name: "project_stats",
+      label: "Project Stats",
+      description:
+        "Progress analytics for a project: task counts, the critical path through the dependency graph " +
+        "(by estimate when present), throughput, lead and cycle time, and a daily burndown.",
       parameters: Type.Object({
         project: Type.String({ description: "Project name" }),
-        taskId: Type.String({ description: "Task ID" }),
+        days: Type.Optional(Type.Integer({
+          minimum: 1,
+          description: `Window for throughput, timing and burndown (default ${DEFAULT_STATS_DAYS})`,
+        })),
       }),
       async execute(_id, params) {
-        const { project, taskId } = params as { project: string; taskId: string };
+        const { project: projectName, days } = params as { project: string; days?: number };
+        const project = validateProjectName(projectName);
 
-        const data = storage.getProject(project);
-        if (!data) {
+        if (!storage.getProject(project)) {
           return {
             content: [{ type: "text", text: `Project '${project}' not found` }],
             details: { found: false },
           };
         }
+        const stats = storage.getProjectStats(project, { days });
+
+        return {
+          content: [{ type: "text", text: formatProjectStats(stats) }],
+          details: stats,
+        };
+      },
+    });
+
+    api.registerTool({
+      name: "task_review",
+      label: "Task Review",
+      description:
+        "List tasks that look forgotten: in progress or blocked for too long, pending and never started, " +
+        "or blocked on one of those. Resolve each by updating, completing, releasing or re-planning it.",
+      parameters: Type.Object({
+        project: Type.Optional(Type.String({ description: "Project name (omit for all active)" })),
+      }),
+      async execute(_id, params) {
+        const { project: projectName } = params as { project?: string };
+        const project = projectName ? validateProjectName(projectName) : undefined;
+
+        const stale = storage.getStaleTasks(project, staleOptions);
+
+        return {
+          content: [{
+            type: "text",
+            text: stale.length > 0
+              ? [`${stale.length} task(s) need attention:`, ...stale.map(formatStaleTask)].join("\n")
+              : "No stale tasks",
+          }],
+          details: {
+            count: stale.length,
+            tasks: stale.map(({ project, task, kind, days, stalledBlockers }) => ({
+              project, taskId: task.id, kind, days, stalledBlockers,
+            })),
+          },
+        };
+      },
+    });
+
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "task_validate",
+        label: "Task Validate",
+        description:
+          "Check task dependencies for cycles, unknown task IDs and blocks/blockedBy mismatches " +
+          "in one or all projects. Set repair to fix them.",
+        parameters: Type.Object({
+          project: Type.Optional(Type.String({ description: "Project name (omit for all projects)" })),
+          repair: Type.Optional(Type.Boolean({ description: "Fix the issues found" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, repair } = params as { project?: string; repair?: boolean };
+
+          const projects = projectName ? [validateProjectName(projectName)] : storage.listProjects();
+          const reports = projects.map(p => checkProjectDependencies(storage, p, repair));
 
-        const task = data.tasks.find(t => t.id === taskId);
-        if (!task) {
           return {
-            content: [{ type: "text", text: `Task '${taskId}' not found in project '${project}'` }],
-            details: { found: false },
+            content: [{ type: "text", text: reports.map(r => r.text).join("\n\n") || "No projects found" }],
+            details: {
+              repaired: Boolean(repair),
+              projects: reports.map(({ project, issues, error }) => ({ project, issues, error })),
+            },
           };
-        }
+        },
+      };
+    }, { name: "task_validate" });
+
+    api.registerTool({
+      name: "task_history",
+      label: "Task History",
+      description: "Show the activity log for a project or one task: when each change was made, by which session.",
+      parameters: Type.Object({
+        project: Type.String({ description: "Project name" }),
+        taskId: Type.Optional(Type.String({ description: "Only changes to this task" })),
+        limit: Type.Optional(Type.Number({ description: "Most recent changes to show (default 20)" })),
+      }),
+      async execute(_id, params) {
+        const { project: projectName, taskId, limit } = params as { project: string; taskId?: string; limit?: number };
+        const project = validateProjectName(projectName);
 
-        const lines = [
-          `Task #${task.id}: ${task.subject}`,
-          `Status: ${task.status}`,
-          task.blockedBy.length > 0 ? `Blocked by: ${task.blockedBy.join(", ")}` : null,
-          task.blocks.length > 0 ? `Blocks: ${task.blocks.join(", ")}` : null,
-          task.notes ? `Notes: ${task.notes}` : null,
-        ].filter(Boolean);
+        const events = storage.getHistory(project, { taskId, limit: limit ?? 20 });
+        const title = taskId ? `${project} #${taskId}` : project;
 
         return {
-          content: [{ type: "text", text: lines.join("\n") }],
-          details: { task },
+          content: [{
+            type: "text",
+            text: events.length > 0
+              ? [`=== History: ${title} ===`, ...events.map(formatEvent)].join("\n")
+              : `No history for ${title}`,
+          }],
+          details: { project, taskId, events },
         };
       },
     });
 
+    api.registerTool(ctx => {
+      const storage = storageFor(ctx);
+      return {
+        name: "task_undo",
+        label: "Task Undo",
+        description:
+          "Revert the most recent task changes in a project, as recorded in its activity log. " +
+          "Changes already undone are skipped.",
+        parameters: Type.Object({
+          project: Type.String({ description: "Project name" }),
+          count: Type.Optional(Type.Number({ description: "Number of changes to revert (default 1)" })),
+        }),
+        async execute(_id, params) {
+          const { project: projectName, count } = params as { project: string; count?: number };
+          const project = validateProjectName(projectName);
+
+          const reverted = storage.undo(project, count ?? 1);
+          const changes = new Set(reverted.map(e => e.change)).size;
+
+          return {
+            content: [{
+              type: "text",
+              text: [`Undid ${changes} change(s) in ${project}:`, ...reverted.map(e => `  ${formatEvent(e)}`)].join("\n"),
+            }],
+            details: { project, reverted },
+          };
+        },
+      };
+    }, { name: "task_undo" });
+
     // ========================================================================
     // Lifecycle Hooks
     // ========================================================================
 
-    // Auto-inject: add active tasks summary to context on session start
-    if (autoInject) {
-      api.on("before_agent_start", async () => {
+    // Checkpoints already injected, so each is resumed from only once
+    const resumed = new Set<string>();
+
+    // Auto-inject: add active tasks summary to context on session start, plus
+    // the checkpoint written when this session was last compacted and, if
+    // enabled, a reminder about stale tasks
+    if (autoInject || autoSaveOnCompaction || staleOptions.inject) {
+      api.on("before_agent_start", async (_event, ctx) => {
+        for (const { project, task } of storage.releaseExpiredClaims()) {
+          api.logger.info?.(`tasks: lease on ${project} #${task.id} expired, released`);
+        }
         const activeProjects = storage.getActiveProjects();
         if (activeProjects.length === 0) {
           return;
         }
 
-        const summary = formatActiveTasksSummary(activeProjects);
-        if (summary) {
+        const parts: string[] = [];
+        if (autoInject) {
+          parts.push(formatActiveTasksSummary(
+            activeProjects,
+            injectOptions,
+            storage.resolveExternalTasks(activeProjects.flatMap(p => p.tasks)),
+          ));
+        }
+        if (autoSaveOnCompaction) {
+          const checkpoints = activeProjects
+            .map(p => storage.getCheckpoint(p.project, ctx?.sessionKey))
+            .filter((c): c is Checkpoint => c !== null && !resumed.has(`${c.project}@${c.at}`));
+          for (const c of checkpoints) {
+            resumed.add(`${c.project}@${c.at}`);
+          }
+          parts.push(formatCheckpoints(checkpoints));
+        }
+        if (staleOptions.inject) {
+          const stale = storage.getStaleTasks(undefined, staleOptions);
+          if (stale.length > 0) {
+            parts.push(formatStaleReminder(stale));
+          }
+        }
+
+        const context = parts.filter(Boolean).join("\n\n");
+        if (context) {
           api.logger.info?.(`tasks: injecting ${activeProjects.length} active project(s) into context`);
-          return { prependContext: summary };
+          return { prependContext: context };
         }
       });
     }
 
-    // Auto-save on compaction: ensure task state is persisted
+    // Auto-save on compaction: checkpoint this session's work into the plan
+    // of each project it touched, so its next turn can pick up where it left off
     if (autoSaveOnCompaction) {
-      api.on("before_compaction", async () => {
-        api.logger.info?.("tasks: context compacting, task state is already file-backed");
-        // Tasks are already file-backed, nothing extra needed
-        // But we could add a timestamp marker here if useful
+      api.on("before_compaction", async (_event, ctx) => {
+        let saved = 0;
+        for (const data of storage.getActiveProjects()) {
+          try {
+            if (storage.saveCheckpoint(data.project, ctx?.sessionKey)) {
+              saved++;
+            }
+          } catch (err) {
+            api.logger.warn?.(`tasks: checkpoint failed for ${data.project}: ${err instanceof Error ? err.message : err}`);
+          }
+        }
+        api.logger.info?.(`tasks: context compacting, checkpointed ${saved} project(s)`);
       });
     }
 
@@ -506,37 +6132,119 @@ const tasksPlugin = {
     api.registerCli(
       ({ program }) => {
         const tasks = program.command("tasks").description("Task management commands");
+        const storage = new TaskStorage(tasksDir, plansDir, {
+          backend,
+          leaseMinutes,
+          archiveDir,
+          session: "cli",
+          warn: message => console.warn(`warning: ${message}`),
+        });
 
         tasks
           .command("list")
           .description("List all projects or tasks in a project")
           .argument("[project]", "Project name")
-          .action(async (project?: string) => {
-            if (project) {
-              const data = storage.getProject(project);
+          .option("-a, --archived", "Include archived projects and tasks")
+          .action(async (projectName: string | undefined, opts: { archived?: boolean }) => {
+            if (projectName) {
+              const project = validateProjectName(projectName);
+              const data = storage.getProject(project) ?? (opts.archived ? storage.getArchivedProject(project) : null);
               if (!data) {
                 console.log(`Project '${project}' not found`);
                 return;
               }
-              console.log(formatTaskList(data));
+              const tasks = opts.archived ? data.tasks : data.tasks.filter(t => !t.archivedAt);
+              console.log(formatTaskList(data, tasks, storage.resolveExternalTasks(tasks)));
             } else {
               const projects = storage.listProjects();
               for (const p of projects) {
-                const data = storage.getProject(p);
+                const data = storage.tryGetProject(p);
                 if (data) {
                   const completed = data.tasks.filter(t => t.status === "completed").length;
                   console.log(`${p} [${data.status}]: ${completed}/${data.tasks.length} completed`);
                 }
               }
+              if (opts.archived) {
+                for (const p of storage.listArchivedProjects()) {
+                  console.log(`${p} [archived]`);
+                }
+              }
             }
           });
 
         tasks
           .command("active")
-          .description("Show active projects with in-progress tasks")
-          .action(async () => {
+          .description("Show the active tasks summary injected at session start")
+          .option("--all", "Show every active project in full, ignoring the inject settings")
+          .action(async (opts: { all?: boolean }) => {
             const activeProjects = storage.getActiveProjects();
-            console.log(formatActiveTasksSummary(activeProjects) || "No active projects");
+            const summary = formatActiveTasksSummary(activeProjects, opts.all
+              ? { maxProjects: Infinity, maxChars: Infinity, detail: "blockers" }
+              : injectOptions, storage.resolveExternalTasks(activeProjects.flatMap(p => p.tasks)));
+            console.log(summary || "No active projects");
+          });
+
+        tasks
+          .command("board")
+          .description("Interactive kanban board for a project")
+          .argument("<project>", "Project name")
+          .action(async (projectName: string) => {
+            const project = validateProjectName(projectName);
+            if (!process.stdin.isTTY || !process.stdout.isTTY) {
+              throw new Error("tasks board needs an interactive terminal");
+            }
+            await runBoard(storage, project);
+          });
+
+        tasks
+          .command("new")
+          .description("Create a project, optionally from a template")
+          .argument("<project>", "Project name")
+          .option("-t, --template <name>", "Template to create it from")
+          .option("--var <key=value...>", "Value for a template placeholder (repeatable)")
+          .action(async (projectName: string, opts: { template?: string; var?: string[] }) => {
+            const project = validateProjectName(projectName);
+            if (!opts.template) {
+              if (storage.getProject(project)) {
+                throw new Error(`Project '${project}' already exists`);
+              }
+              storage.createProject(project);
+              console.log(`Created project '${project}'`);
+              return;
+            }
+
+            const variables: Record<string, string> = {};
+            for (const assignment of opts.var ?? []) {
+              const eq = assignment.indexOf("=");
+              if (eq <= 0) {
+                throw new Error(`Expected key=value, got '${assignment}'`);
+              }
+              variables[assignment.slice(0, eq)] = assignment.slice(eq + 1);
+            }
+
+            const { data, tasks } = storage.createFromTemplate(project, loadTemplate(templatesDir, opts.template), variables);
+            console.log(`Created project '${project}' from template '${opts.template}' with ${tasks.length} task(s)`);
+            console.log(formatTaskList(data, data.tasks, storage.resolveExternalTasks(data.tasks)));
+          });
+
+        tasks
+          .command("templates")
+          .description("List project templates")
+          .action(async () => {
+            const names = listTemplates(templatesDir);
+            if (names.length === 0) {
+              console.log(`No templates in ${templatesDir}`);
+              return;
+            }
+            for (const name of names) {
+              let description: string;
+              try {
+                description = loadTemplate(templatesDir, name).description ?? "";
+              } catch (err) {
+                description = `(error: ${err instanceof Error ? err.message : String(err)})`;
+              }
+              console.log(description ? `${name}: ${description}` : name);
+            }
           });
 
         tasks
@@ -544,10 +6252,511 @@ const tasksPlugin = {
           .description("Add a task to a project")
           .argument("<project>", "Project name")
           .argument("<subject>", "Task description")
-          .action(async (project: string, subject: string) => {
+          .action(async (projectName: string, subject: string) => {
+            const project = validateProjectName(projectName);
             const task = storage.addTask(project, subject);
             console.log(`Added task #${task.id}: ${subject}`);
           });
+
+        tasks
+          .command("rename")
+          .description("Change a task's subject")
+          .argument("<project>", "Project name")
+          .argument("<taskId>", "Task ID")
+          .argument("<subject>", "New task description")
+          .action(async (projectName: string, taskId: string, subject: string) => {
+            const project = validateProjectName(projectName);
+            storage.renameTask(project, taskId, subject);
+            console.log(`Renamed task #${taskId}: ${subject}`);
+          });
+
+        tasks
+          .command("get")
+          .description("Show a task's details")
+          .argument("<project>", "Project name")
+          .argument("<taskId>", "Task ID")
+          .action(async (projectName: string, taskId: string) => {
+            const project = validateProjectName(projectName);
+            const data = storage.getProject(project);
+            if (!data) {
+              console.log(`Project '${project}' not found`);
+              return;
+            }
+            const task = data.tasks.find(t => t.id === taskId);
+            if (!task) {
+              console.log(`Task '${taskId}' not found in project '${project}'`);
+              return;
+            }
+            console.log(formatTaskDetails(data, task, storage.resolveExternalTasks(data.tasks)));
+          });
+
+        tasks
+          .command("update")
+          .description("Change a task's status, subject, notes or attributes")
+          .argument("<project>", "Project name")
+          .argument("<taskId>", "Task ID")
+          .option("-s, --status <status>", TASK_STATUSES.join(", "))
+          .option("--subject <text>", "New task description")
+          .option("--notes <text>", "Replace the notes")
+          .option("--comment <text>", "Append a timestamped comment")
+          .option("-p, --priority <priority>", TASK_PRIORITIES.join(", "))
+          .option("--tags <tag...>", "Replace tags")
+          .option("--assignee <name>", "Agent or person responsible")
+          .option("--due <date>", "Due date (YYYY-MM-DD)")
+          .option("--estimate <hours>", "Estimated effort in hours")
+          .option("--blocked-by <taskId...>", "Add blockers (project#id for other projects)")
+          .option("--clear <field...>", "Clear priority, tags, assignee, due or estimate")
+          .option("--force", "Change the task even though another session claimed it")
+          .action(async (projectName: string, taskId: string, opts: {
+            status?: string;
+            subject?: string;
+            notes?: string;
+            comment?: string;
+            priority?: string;
+            tags?: string[];
+            assignee?: string;
+            due?: string;
+            estimate?: string;
+            blockedBy?: string[];
+            clear?: string[];
+            force?: boolean;
+          }) => {
+            const project = validateProjectName(projectName);
+            if (opts.status !== undefined && !TASK_STATUSES.includes(opts.status as TaskStatus)) {
+              throw new Error(`Invalid status '${opts.status}' (expected ${TASK_STATUSES.join(", ")})`);
+            }
+
+            const update: TaskUpdate = {
+              status: opts.status as TaskStatus | undefined,
+              subject: opts.subject,
+              notes: opts.notes,
+              comment: opts.comment,
+              priority: opts.priority as TaskPriority | undefined,
+              tags: opts.tags,
+              assignee: opts.assignee,
+              due: opts.due,
+              estimate: opts.estimate !== undefined ? Number(opts.estimate) : undefined,
+              blockedBy: opts.blockedBy,
+              force: opts.force,
+            };
+            const clearable: Array<keyof TaskFields> = ["priority", "tags", "assignee", "due", "estimate"];
+            for (const field of opts.clear ?? []) {
+              if (!clearable.includes(field as keyof TaskFields)) {
+                throw new Error(`Can't clear '${field}' (expected ${clearable.join(", ")})`);
+              }
+              update[field as keyof TaskFields] = null;
+            }
+
+            const results = updateTask(storage, project, taskId, update);
+            console.log(results.length > 0 ? results.join("\n") : "Nothing to update");
+          });
+
+        tasks
+          .command("done")
+          .description("Complete a task")
+          .argument("<project>", "Project name")
+          .argument("<taskId>", "Task ID")
+          .option("--force", "Complete the task even though another session claimed it")
+          .action(async (projectName: string, taskId: string, opts: { force?: boolean }) => {
+            const project = validateProjectName(projectName);
+            console.log(updateTask(storage, project, taskId, { status: "completed", force: opts.force }).join("\n"));
+          });
+
+        tasks
+          .command("block")
+          .description("Mark a task as blocked by other tasks")
+          .argument("<project>", "Project name")
+          .argument("<taskId>", "Task ID")
+          .argument("<blockerIds...>", "Blocking task IDs (project#id for other projects)")
+          .option("--force", "Block the task even though another session claimed it")
+          .action(async (projectName: string, taskId: string, blockerIds: string[], opts: { force?: boolean }) => {
+            const project = validateProjectName(projectName);
+            console.log(updateTask(storage, project, taskId, { blockedBy: blockerIds, force: opts.force }).join("\n"));
+          });
+
+        tasks
+          .command("note")
+          .description("Add a comment to a task")
+          .argument("<project>", "Project name")
+          .argument("<taskId>", "Task ID")
+          .argument("<text...>", "Comment text")
+          .option("--replace", "Replace the task's notes instead")
+          .option("--force", "Write to the task even though another session claimed it")
+          .action(async (projectName: string, taskId: string, words: string[], opts: { replace?: boolean; force?: boolean }) => {
+            const project = validateProjectName(projectName);
+            const text = words.join(" ");
+            const update: TaskUpdate = opts.replace ? { notes: text, force: opts.force } : { comment: text, force: opts.force };
+            console.log(updateTask(storage, project, taskId, update).join("\n"));
+          });
+
+        tasks
+          .command("rm")
+          .description("Delete a task")
+          .argument("<project>", "Project name")
+          .argument("<taskId>", "Task ID")
+          .option("--force", "Delete the task even though another session claimed it")
+          .action(async (projectName: string, taskId: string, opts: { force?: boolean }) => {
+            const project = validateProjectName(projectName);
+            const { task, unblocked } = storage.deleteTask(project, taskId, { force: opts.force });
+            console.log(`Deleted task #${taskId}: ${task.subject}`);
+            for (const id of unblocked) {
+              console.log(`Task ${formatTaskRef(id)} unblocked`);
+            }
+          });
+
+        tasks
+          .command("mv")
+          .description("Move a task to another project")
+          .argument("<project>", "Current project name")
+          .argument("<taskId>", "Task ID")
+          .argument("<toProject>", "Destination project name")
+          .option("--force", "Move the tasks even though another session claimed them")
+          .action(async (projectName: string, taskId: string, toProjectName: string, opts: { force?: boolean }) => {
+            const project = validateProjectName(projectName);
+            const toProject = validateProjectName(toProjectName);
+            const { task, droppedDependencies } = storage.moveTask(project, taskId, toProject, { force: opts.force });
+            console.log(`Moved ${project} #${taskId} → ${toProject} #${task.id}: ${task.subject}`);
+            if (droppedDependencies.length > 0) {
+              console.log(`Dropped dependencies on ${project} tasks: ${droppedDependencies.join(", ")}`);
+            }
+          });
+
+        tasks
+          .command("reorder")
+          .description("Change where a task is listed among its siblings")
+          .argument("<project>", "Project name")
+          .argument("<taskId>", "Task ID")
+          .option("--before <taskId>", "Put it before this sibling (default: last)")
+          .action(async (projectName: string, taskId: string, opts: { before?: string }) => {
+            const project = validateProjectName(projectName);
+            const siblings = storage.reorderTask(project, taskId, opts.before);
+            console.log(`Reordered: ${siblings.map(t => `#${t.id}`).join(", ")}`);
+          });
+
+        tasks
+          .command("project-status")
+          .description("Set a project's status")
+          .argument("<project>", "Project name")
+          .argument("<status>", "active, paused or completed")
+          .action(async (projectName: string, status: string) => {
+            const project = validateProjectName(projectName);
+            storage.updateProjectStatus(project, status as TaskProject["status"]);
+            console.log(`Project '${project}' status: ${status}`);
+          });
+
+        tasks
+          .command("archive")
+          .description("Archive a completed project, or its completed tasks")
+          .argument("[project]", "Project name")
+          .option("--tasks", "Archive only the project's completed tasks")
+          .option("--older-than <days>", "Archive every completed project idle for this many days")
+          .option("--force", "Archive the project even though it isn't completed")
+          .action(async (projectName: string | undefined, opts: { tasks?: boolean; olderThan?: string; force?: boolean }) => {
+            if (opts.olderThan !== undefined) {
+              if (!/^\d+$/.test(opts.olderThan.trim())) {
+                throw new Error(`Invalid --older-than '${opts.olderThan}' (expected a whole number of days, 0 or more)`);
+              }
+              const archived = storage.archiveCompletedProjects(Number(opts.olderThan));
+              console.log(archived.length > 0 ? `Archived: ${archived.join(", ")}` : "No projects to archive");
+              return;
+            }
+            if (!projectName) {
+              throw new Error("Name a project, or pass --older-than <days>");
+            }
+            const project = validateProjectName(projectName);
+            if (opts.tasks) {
+              const archived = storage.archiveTasks(project);
+              console.log(archived.length > 0
+                ? `Archived ${archived.length} task(s): ${formatIds(archived.map(t => t.id))}`
+                : "No completed tasks to archive");
+              return;
+            }
+            storage.archiveProject(project, { force: opts.force });
+            console.log(`Archived project '${project}'`);
+          });
+
+        tasks
+          .command("restore")
+          .description("Restore an archived project, or a project's archived tasks")
+          .argument("<project>", "Project name")
+          .argument("[taskIds...]", "With --tasks, only these tasks")
+          .option("--tasks", "Restore archived tasks instead of the project")
+          .action(async (projectName: string, taskIds: string[], opts: { tasks?: boolean }) => {
+            const project = validateProjectName(projectName);
+            if (opts.tasks) {
+              const restored = storage.restoreTasks(project, taskIds.length > 0 ? taskIds : undefined);
+              console.log(restored.length > 0
+                ? `Restored ${restored.length} task(s): ${formatIds(restored.map(t => t.id))}`
+                : "No archived tasks to restore");
+              return;
+            }
+            const data = storage.restoreProject(project);
+            console.log(`Restored project '${project}' (${data.tasks.length} task(s), ${data.status})`);
+          });
+
+        tasks
+          .command("next")
+          .description("Show the next ready task")
+          .argument("[project]", "Project name (default: all active projects)")
+          .option("--claim", "Mark the task in_progress")
+          .action(async (projectName: string | undefined, opts: { claim?: boolean }) => {
+            const project = projectName ? validateProjectName(projectName) : undefined;
+            const next = storage.nextTask(project, { claim: opts.claim });
+            console.log(next ? `${opts.claim ? "Claimed" : "Next"}: ${formatReadyTask(next)}` : "No ready tasks");
+          });
+
+        tasks
+          .command("claim")
+          .description("Claim a ready task, or release a claim")
+          .argument("<project>", "Project name")
+          .argument("<taskId>", "Task ID")
+          .option("--lease <minutes>", "Lease length in minutes")
+          .option("--release", "Release the claim instead")
+          .option("--force", "Take over or release another session's claim")
+          .action(async (projectName: string, taskId: string, opts: { lease?: string; release?: boolean; force?: boolean }) => {
+            const project = validateProjectName(projectName);
+            if (opts.release) {
+              const task = storage.releaseTask(project, taskId, { force: opts.force });
+              console.log(`Released task #${taskId} (now ${task.status})`);
+              return;
+            }
+            const leaseMinutes = opts.lease !== undefined ? Number(opts.lease) : undefined;
+            if (leaseMinutes !== undefined && !(opts.lease!.trim() && Number.isFinite(leaseMinutes) && leaseMinutes > 0)) {
+              throw new Error(`Invalid lease '${opts.lease}' (expected a positive number of minutes)`);
+            }
+            const task = storage.claimTask(project, taskId, { force: opts.force, leaseMinutes });
+            console.log(`Claimed task #${taskId}: ${task.subject} until ${task.claim!.expires}`);
+          });
+
+        tasks
+          .command("stats")
+          .description("Show counts, critical path, throughput and burndown for a project")
+          .argument("<project>", "Project name")
+          .option("-d, --days <n>", `Window in days (default ${DEFAULT_STATS_DAYS})`)
+          .action(async (projectName: string, opts: { days?: string }) => {
+            const project = validateProjectName(projectName);
+            const stats = storage.getProjectStats(project, { days: opts.days !== undefined ? Number(opts.days) : undefined });
+            console.log(formatProjectStats(stats));
+          });
+
+        tasks
+          .command("stale")
+          .description("List stale, stuck and abandoned tasks")
+          .argument("[project]", "Project name (default: all active projects)")
+          .action(async (projectName: string | undefined) => {
+            const project = projectName ? validateProjectName(projectName) : undefined;
+            const stale = storage.getStaleTasks(project, staleOptions);
+            console.log(stale.length > 0 ? stale.map(formatStaleTask).join("\n") : "No stale tasks");
+          });
+
+        tasks
+          .command("doctor")
+          .description("Check task dependencies for cycles, dangling IDs and asymmetry")
+          .argument("[project]", "Project name (default: all projects)")
+          .option("--fix", "Repair the issues found")
+          .action(async (projectName: string | undefined, opts: { fix?: boolean }) => {
+            const projects = projectName ? [validateProjectName(projectName)] : storage.listProjects();
+            for (const p of projects) {
+              console.log(checkProjectDependencies(storage, p, opts.fix).text);
+            }
+            if (!projectName) {
+              for (const legacy of storage.listLegacyProjects()) {
+                console.log(`${legacy}: warning: not a valid project name, so it's hidden; run 'openclaw tasks migrate' to rename it`);
+              }
+            }
+          });
+
+        tasks
+          .command("migrate")
+          .description("Upgrade task files to the current schema version")
+          .option("--dry-run", "Report what would change without writing")
+          .action(async (opts: { dryRun?: boolean }) => {
+            const reports = storage.migrateProjects({ dryRun: opts.dryRun });
+            for (const report of reports) {
+              if (report.error) {
+                console.log(`${report.project}: error: ${report.error}`);
+              } else if (report.changes.length === 0) {
+                console.log(`${report.project}: up to date (v${report.toVersion})`);
+              } else {
+                const verb = opts.dryRun ? "would migrate" : "migrated";
+                const versions = report.fromVersion !== null ? ` v${report.fromVersion} → v${report.toVersion}` : "";
+                console.log(`${report.project}: ${verb}${versions}`);
+                for (const change of report.changes) {
+                  console.log(`  - ${change}`);
+                }
+              }
+            }
+            if (reports.length === 0) {
+              console.log("No projects found");
+            }
+          });
+
+        tasks
+          .command("history")
+          .description("Show the activity log for a project or task")
+          .argument("<project>", "Project name")
+          .argument("[taskId]", "Only changes to this task")
+          .option("-n, --limit <count>", "Most recent changes to show", "20")
+          .action(async (projectName: string, taskId: string | undefined, opts: { limit: string }) => {
+            const project = validateProjectName(projectName);
+            const events = storage.getHistory(project, { taskId, limit: parseInt(opts.limit, 10) });
+            console.log(events.map(formatEvent).join("\n") || "No history");
+          });
+
+        tasks
+          .command("undo")
+          .description("Revert the last changes recorded in a project's activity log")
+          .argument("<project>", "Project name")
+          .option("-n, --count <count>", "Number of changes to revert", "1")
+          .action(async (projectName: string, opts: { count: string }) => {
+            const project = validateProjectName(projectName);
+            const reverted = storage.undo(project, parseInt(opts.count, 10));
+            console.log(`Undid ${new Set(reverted.map(e => e.change)).size} change(s):`);
+            for (const event of reverted) {
+              console.log(`  ${formatEvent(event)}`);
+            }
+          });
+
+        tasks
+          .command("search")
+          .description("Search tasks and plans across all projects")
+          .argument("<query...>", "Words to search for")
+          .option("-p, --project <project>", "Only search this project")
+          .option("-s, --status <status>", "Only tasks with this status")
+          .option("--project-status <status>", "Only projects with this status")
+          .option("-t, --tag <tags...>", "Only tasks with all of these tags")
+          .option("-n, --limit <count>", "Maximum results", "20")
+          .option("-a, --archived", "Also search archived projects and tasks")
+          .action(async (words: string[], opts: {
+            project?: string;
+            status?: TaskStatus;
+            projectStatus?: TaskProject["status"];
+            tag?: string[];
+            limit: string;
+            archived?: boolean;
+          }) => {
+            const query = words.join(" ");
+            const hits = storage.search(query, {
+              project: opts.project,
+              status: opts.status,
+              projectStatus: opts.projectStatus,
+              tags: opts.tag,
+              limit: parseInt(opts.limit, 10),
+              includeArchived: opts.archived,
+            });
+            console.log(hits.map(formatSearchHit).join("\n") || `No matches for "${query}"`);
+          });
+
+        tasks
+          .command("export")
+          .description(
+            "Write every project, with its activity log and plan, to one JSON file, " +
+            "or one project as md, mermaid, csv or json"
+          )
+          .argument("[project]", "Export only this project (in --format)")
+          .option("-f, --format <format>", `Format for a single project: ${EXPORT_FORMATS.join(", ")} (default: md)`)
+          .option("-o, --out <file>", "Output file (default: stdout)")
+          .action(async (projectName: string | undefined, opts: { format?: string; out?: string }) => {
+            if (projectName) {
+              const project = validateProjectName(projectName);
+              const format = (opts.format ?? "md") as ExportFormat;
+              if (!EXPORT_FORMATS.includes(format)) {
+                throw new Error(`Unknown export format '${format}' (expected ${EXPORT_FORMATS.join(", ")})`);
+              }
+              const data = storage.getProject(project);
+              if (!data) {
+                console.log(`Project '${project}' not found`);
+                return;
+              }
+              const output = formatProjectExport(data, format, storage.resolveExternalTasks(data.tasks));
+              if (opts.out) {
+                writeFileAtomic(path.resolve(opts.out), output.endsWith("\n") ? output : `${output}\n`);
+                console.log(`Exported ${project} as ${format} to ${opts.out}`);
+              } else {
+                console.log(output.replace(/\r?\n$/, ""));
+              }
+              return;
+            }
+            if (opts.format) {
+              throw new Error("--format needs a project; without one, every project is exported as a bundle");
+            }
+
+            const bundle = storage.exportProjects();
+            const json = `${JSON.stringify(bundle, null, 2)}\n`;
+            if (opts.out) {
+              writeFileAtomic(path.resolve(opts.out), json);
+              console.log(`Exported ${bundle.projects.length} project(s) to ${opts.out}`);
+            } else {
+              process.stdout.write(json);
+            }
+          });
+
+        tasks
+          .command("import")
+          .description(
+            "Load projects from a file written by `tasks export`, or add tasks to a project " +
+            "from TODO comments or a Markdown checklist"
+          )
+          .argument("<file|project>", "Export file, or the project to add to with --from-todos/--from-markdown")
+          .option("--overwrite", "Replace projects that already exist")
+          .option("--from-todos <dir>", "Create tasks from TODO: and FIXME: comments in files under dir")
+          .option("--from-markdown <file>", "Create tasks from the - [ ] items of a Markdown file")
+          .option("--complete-missing", "Complete imported tasks whose TODO or checklist item is gone")
+          .action(async (file: string, opts: {
+            overwrite?: boolean;
+            fromTodos?: string;
+            fromMarkdown?: string;
+            completeMissing?: boolean;
+          }) => {
+            if (opts.fromTodos || opts.fromMarkdown) {
+              const project = validateProjectName(file);
+              const root = process.cwd();
+              const scans: Array<[string, SourceItem[]]> = [];
+              if (opts.fromTodos) {
+                scans.push([opts.fromTodos, scanTodoComments(path.resolve(opts.fromTodos), root)]);
+              }
+              if (opts.fromMarkdown) {
+                scans.push([opts.fromMarkdown, scanMarkdownChecklist(path.resolve(opts.fromMarkdown), root)]);
+              }
+
+              for (const [source, items] of scans) {
+                const { created, updated, completed, unchanged } = storage.importSourceItems(project, items, {
+                  scope: sourcePath(path.resolve(source), root),
+                  completeMissing: opts.completeMissing,
+                });
+                console.log(
+                  `${source}: ${created.length} created, ${updated.length} moved, ` +
+                  `${completed.length} completed, ${unchanged} unchanged`
+                );
+              }
+              return;
+            }
+
+            const bundle = JSON.parse(fs.readFileSync(path.resolve(file), "utf-8"));
+            for (const report of storage.importProjects(bundle, { overwrite: opts.overwrite })) {
+              console.log(report.imported ? `${report.project}: imported` : `${report.project}: skipped (${report.reason})`);
+            }
+          });
+
+        tasks
+          .command("plan")
+          .description("Show a project's plan, optionally syncing its checklist into tasks")
+          .argument("<project>", "Project name")
+          .option("--sync", "Create/complete tasks from the Phases checklist")
+          .action(async (projectName: string, opts: { sync?: boolean }) => {
+            const project = validateProjectName(projectName);
+            if (opts.sync) {
+              const { created, completed, reopened, errors } = storage.syncTasksFromPlan(project);
+              console.log(
+                `Synced plan: ${created.length} created, ${completed.length} completed, ${reopened.length} reopened`
+              );
+              for (const error of errors) {
+                console.log(`Not applied: ${error}`);
+              }
+            }
+            const plan = storage.getPlan(project);
+            console.log(plan ?? `Plan for '${project}' not found`);
+          });
       },
       { commands: ["tasks"] },
     );
@@ -556,16 +6765,54 @@ const tasksPlugin = {
     // Service
     // ========================================================================
 
+    // Hand edits to task and plan files: bring the other file in line and
+    // report what changed or couldn't be applied
+    const reconcile = (project: string, file: "tasks" | "plan") => {
+      try {
+        const { completed, reopened, errors } = storage.reconcileExternalEdit(project, file);
+        if (completed.length > 0 || reopened.length > 0) {
+          api.logger.info?.(
+            `tasks: ${project} plan edited; completed ${completed.length}, reopened ${reopened.length} task(s)`
+          );
+        }
+        for (const error of errors) {
+          api.logger.warn?.(`tasks: ${project} plan edit not applied: ${error}`);
+        }
+      } catch (err) {
+        api.logger.warn?.(`tasks: ${project} ${file} edit: ${err instanceof Error ? err.message : err}`);
+      }
+    };
+    let stopWatching: (() => void) | undefined;
+
     api.registerService({
       id: "tasks",
       start: () => {
+        if (autoArchiveDays > 0) {
+          try {
+            const archived = storage.archiveCompletedProjects(autoArchiveDays);
+            if (archived.length > 0) {
+              api.logger.info(`tasks: archived ${archived.length} completed project(s): ${archived.join(", ")}`);
+            }
+          } catch (err) {
+            api.logger.warn?.(`tasks: auto-archive failed: ${err instanceof Error ? err.message : err}`);
+          }
+        }
         const projects = storage.listProjects();
         const active = storage.getActiveProjects();
+        if (watchFiles) {
+          stopWatching = watchProjectFiles(
+            { tasksDir: backend.kind === "json" ? tasksDir : undefined, plansDir },
+            reconcile,
+            ownWrites,
+          );
+        }
         api.logger.info(
           `tasks: initialized (${projects.length} projects, ${active.length} active)`
         );
       },
       stop: () => {
+        stopWatching?.();
+        backend.close();
         api.logger.info("tasks: stopped");
       },
     });
@@ -573,3 +6820,75 @@ const tasksPlugin = {
 };
 
 export default tasksPlugin;
+
+export {
+  TaskStorage,
+  JsonBackend,
+  SqliteBackend,
+  InvalidProjectNameError,
+  ProjectCorruptedError,
+  ProjectLockError,
+  ProjectConflictError,
+  ArchiveCorruptedError,
+  DependencyError,
+  TaskClaimedError,
+  writeFileAtomic,
+  migrateProjectData,
+  CURRENT_SCHEMA_VERSION,
+  normalizeProjectName,
+  validateProjectName,
+  findDependencyIssues,
+  repairDependencies,
+  parseTaskRef,
+  rankReadyTasks,
+  findStaleTasks,
+  computeProjectStats,
+  mergeProjects,
+  mergePlans,
+  watchProjectFiles,
+  contentDigest,
+  matchesFilter,
+  formatTaskList,
+  formatTaskDetails,
+  formatActiveTasksSummary,
+  formatEvent,
+  formatProjectExport,
+  updateTask,
+  handleBoardKey,
+  renderBoard,
+  loadTemplate,
+  listTemplates,
+  scanTodoComments,
+  scanMarkdownChecklist,
+  searchProjects,
+  parsePlan,
+  getPlanSection,
+};
+export type {
+  Task,
+  TaskProject,
+  TaskStatus,
+  TaskPriority,
+  TaskFields,
+  TaskUpdate,
+  TaskFilter,
+  TaskComment,
+  TaskClaim,
+  TaskEvent,
+  Checkpoint,
+  StorageBackend,
+  ExportBundle,
+  ExportFormat,
+  ProjectTemplate,
+  TemplateTask,
+  SearchHit,
+  SearchOptions,
+  SourceItem,
+  DependencyIssue,
+  ExternalTasks,
+  ReadyTask,
+  StaleTask,
+  StaleOptions,
+  ProjectStats,
+  BoardState,
+};